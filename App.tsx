@@ -9,15 +9,20 @@ import {
 import tw from 'twrnc';
 import { SafeAreaProvider, SafeAreaView } from 'react-native-safe-area-context';
 import VoiceToText from './components/VoiceToText';
-import CommandExecutor from './components/CommandExecutor';
+import CommandExecutor, { type Transcript } from './components/CommandExecutor';
+import { DEFAULT_LOCALE, type Locale } from './locale';
 
 function App() {
   const isDarkMode = useColorScheme() === 'dark';
-  const [commandText, setCommandText] = useState('');
+  const [transcript, setTranscript] = useState<Transcript | null>(null);
+  // 识别语言和命令语法共用同一个设置
+  const [language, setLanguage] = useState<Locale>(DEFAULT_LOCALE);
+  // 命令缺少参数时，由 CommandExecutor 请求再录一次音
+  const [listenRequest, setListenRequest] = useState(0);
 
-  const handleTextGenerated = (text: string) => {
+  const handleTextGenerated = (text: string, confidence?: number) => {
     console.log('Generated Text:', text);
-    setCommandText(text);
+    setTranscript(prev => ({ id: (prev?.id ?? 0) + 1, text, confidence }));
   };
 
   return (
@@ -59,7 +64,7 @@ function App() {
           contentContainerStyle={tw`p-4 pb-10 gap-4`}
         >
           {/* 转写文字显示区域 */}
-          {commandText ? (
+          {transcript?.text ? (
             <View
               style={tw.style(
                 'rounded-2xl p-4 gap-2',
@@ -91,7 +96,7 @@ function App() {
                   isDarkMode ? 'text-white' : 'text-slate-900',
                 )}
               >
-                {commandText}
+                {transcript.text}
               </Text>
             </View>
           ) : (
@@ -113,10 +118,19 @@ function App() {
           )}
 
           {/* 录音转文字组件 */}
-          <VoiceToText onTextGenerated={handleTextGenerated} />
+          <VoiceToText
+            onTextGenerated={handleTextGenerated}
+            language={language}
+            onLanguageChange={setLanguage}
+            listenRequest={listenRequest}
+          />
 
           {/* 命令执行组件 */}
-          <CommandExecutor commandText={commandText} />
+          <CommandExecutor
+            transcript={transcript}
+            locale={language}
+            onRequestListening={() => setListenRequest(prev => prev + 1)}
+          />
         </ScrollView>
       </SafeAreaView>
     </SafeAreaProvider>
@@ -0,0 +1,155 @@
+/**
+ * @format
+ */
+
+import { evaluateCommand, parseConfirmationReply } from '../actionPolicy';
+import { parseCommand } from '../intentParser';
+import { createMacro, deleteMacro } from '../macros';
+
+const context = { matchConfidence: 1, foregroundPackage: null };
+
+describe('evaluateCommand', () => {
+  test('auto-runs confident commands in ordinary apps', () => {
+    expect(
+      evaluateCommand(parseCommand('打开微信然后点击 100,200'), {
+        ...context,
+        recognitionConfidence: 0.95,
+      }),
+    ).toEqual({ decision: 'auto', reasons: [] });
+  });
+
+  test('asks for confirmation on low or corrected confidence', () => {
+    expect(
+      evaluateCommand(parseCommand('点击 100,200'), {
+        ...context,
+        recognitionConfidence: 0.5,
+      }),
+    ).toMatchObject({ decision: 'confirm' });
+    expect(
+      evaluateCommand(parseCommand('打开微信'), {
+        ...context,
+        matchConfidence: 0.9,
+      }),
+    ).toMatchObject({ decision: 'confirm' });
+  });
+
+  test('does not treat unrecognized commands as corrected', () => {
+    for (const command of ['你好', '点击 abc']) {
+      expect(
+        evaluateCommand(parseCommand(command), {
+          ...context,
+          matchConfidence: 0,
+        }),
+      ).toEqual({ decision: 'auto', reasons: [] });
+    }
+    expect(
+      evaluateCommand(parseCommand('tap foo', 'en-US'), {
+        ...context,
+        matchConfidence: 0,
+      }).reasons,
+    ).toEqual([]);
+  });
+
+  test('ignores missing recognition confidence', () => {
+    expect(
+      evaluateCommand(parseCommand('点击 100,200'), {
+        ...context,
+        recognitionConfidence: 0,
+      }).decision,
+    ).toBe('auto');
+  });
+
+  test('refuses very low confidence and oversized pastes', () => {
+    expect(
+      evaluateCommand(parseCommand('点击 100,200'), {
+        ...context,
+        recognitionConfidence: 0.1,
+      }).decision,
+    ).toBe('refuse');
+    expect(
+      evaluateCommand(parseCommand(`输入 ${'字'.repeat(60)}`), context),
+    ).toEqual({ decision: 'confirm', reasons: ['将粘贴 60 字'] });
+    expect(
+      evaluateCommand(parseCommand(`输入 ${'字'.repeat(3000)}`), context)
+        .decision,
+    ).toBe('refuse');
+  });
+
+  test('tracks the target app across steps', () => {
+    expect(
+      evaluateCommand(parseCommand('点击 100,200'), {
+        ...context,
+        foregroundPackage: 'com.eg.android.AlipayGphone',
+      }).decision,
+    ).toBe('confirm');
+    expect(
+      evaluateCommand(parseCommand('打开支付宝然后点击 100,200'), context)
+        .decision,
+    ).toBe('confirm');
+    expect(
+      evaluateCommand(parseCommand('打开微信然后点击 100,200'), {
+        ...context,
+        foregroundPackage: 'com.eg.android.AlipayGphone',
+      }).decision,
+    ).toBe('auto');
+  });
+
+  test('confirms interface actions parsed by the LLM', () => {
+    expect(
+      evaluateCommand(parseCommand('打开微信然后点击 100,200'), {
+        ...context,
+        fromLlm: true,
+      }),
+    ).toEqual({
+      decision: 'confirm',
+      reasons: ['命令由大模型解析，请核对步骤'],
+    });
+    expect(
+      evaluateCommand(parseCommand('打开微信'), { ...context, fromLlm: true })
+        .decision,
+    ).toBe('auto');
+  });
+
+  test('checks system actions in sensitive apps', () => {
+    expect(
+      evaluateCommand(parseCommand('截屏'), {
+        ...context,
+        foregroundPackage: 'com.eg.android.AlipayGphone',
+      }).decision,
+    ).toBe('confirm');
+  });
+
+  test('evaluates the commands inside macros', async () => {
+    const inner = await createMacro('付款', ['打开支付宝', '点击 50%,80%']);
+    const outer = await createMacro('长文本', [
+      'if app == 微信 {',
+      `输入 ${'字'.repeat(3000)}`,
+      '}',
+      'call 付款',
+    ]);
+    try {
+      expect(evaluateCommand(parseCommand('执行付款'), context)).toEqual({
+        decision: 'confirm',
+        reasons: ['将在敏感应用 com.eg.android.AlipayGphone 中操作'],
+      });
+      expect(
+        evaluateCommand(parseCommand('执行长文本'), context).reasons,
+      ).toEqual([
+        '粘贴内容过长（3000 字）',
+        '将在敏感应用 com.eg.android.AlipayGphone 中操作',
+      ]);
+    } finally {
+      await deleteMacro(outer.id);
+      await deleteMacro(inner.id);
+    }
+  });
+});
+
+describe('parseConfirmationReply', () => {
+  test('recognizes spoken replies', () => {
+    expect(parseConfirmationReply('确认。')).toBe('confirm');
+    expect(parseConfirmationReply('Yes')).toBe('confirm');
+    expect(parseConfirmationReply('取消')).toBe('cancel');
+    expect(parseConfirmationReply('打开微信')).toBeNull();
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * @format
+ */
+
+import { ActionQueue, isStopCommand } from '../actionQueue';
+
+/** 返回一个由测试控制何时完成的动作 */
+function deferred() {
+  let finish: () => void = () => {};
+  const done = new Promise<void>(resolve => {
+    finish = resolve;
+  });
+  return { done, finish };
+}
+
+const flush = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+describe('action queue', () => {
+  test('runs one action at a time in priority order', async () => {
+    const queue = new ActionQueue();
+    const order: string[] = [];
+    const first = deferred();
+    const run = (label: string) => async () => {
+      order.push(label);
+    };
+
+    const running = queue.enqueue('first', async () => {
+      order.push('first');
+      await first.done;
+    });
+    const low = queue.enqueue('low', run('low'), { priority: 'low' });
+    const normal = queue.enqueue('normal', run('normal'));
+    const high = queue.enqueue('high', run('high'), { priority: 'high' });
+
+    expect(queue.getState()).toEqual({
+      running: { id: 1, label: 'first', priority: 'normal' },
+      pending: [
+        { id: 4, label: 'high', priority: 'high' },
+        { id: 3, label: 'normal', priority: 'normal' },
+        { id: 2, label: 'low', priority: 'low' },
+      ],
+    });
+    expect(queue.prioritize(2)).toBe(true);
+
+    first.finish();
+    await Promise.all([running, low, normal, high]);
+    expect(order).toEqual(['first', 'high', 'low', 'normal']);
+    expect(queue.getState()).toEqual({ running: null, pending: [] });
+  });
+
+  test('stops the running action and cancels the rest', async () => {
+    const queue = new ActionQueue();
+    let signal: AbortSignal | null = null;
+    const running = queue.enqueue(
+      '等待',
+      task =>
+        new Promise<string>(resolve => {
+          signal = task;
+          task.addEventListener('abort', () => resolve('stopped'));
+        }),
+    );
+    const waiting = queue.enqueue('点击', async () => 'tapped');
+    const removed = queue.enqueue('返回', async () => 'back');
+
+    expect(queue.cancel(3)).toBe(true);
+    await expect(removed).rejects.toMatchObject({ code: 'CANCELLED' });
+
+    expect(queue.cancelAll()).toBe(2);
+    expect(signal!.aborted).toBe(true);
+    await expect(running).resolves.toBe('stopped');
+    await expect(waiting).rejects.toMatchObject({ code: 'CANCELLED' });
+
+    await flush();
+    await expect(queue.enqueue('再次', async () => 'again')).resolves.toBe(
+      'again',
+    );
+  });
+
+  test('keeps running after a failed action and notifies subscribers', async () => {
+    const queue = new ActionQueue();
+    const states: number[] = [];
+    const unsubscribe = queue.subscribe(state =>
+      states.push(state.pending.length + (state.running ? 1 : 0)),
+    );
+
+    const failed = queue.enqueue('失败', async () => {
+      throw new Error('boom');
+    });
+    const next = queue.enqueue('下一步', async () => 'ok');
+    await expect(failed).rejects.toThrow('boom');
+    await expect(next).resolves.toBe('ok');
+    await flush();
+
+    unsubscribe();
+    expect(states[0]).toBe(0);
+    expect(states[states.length - 1]).toBe(0);
+    expect(Math.max(...states)).toBe(2);
+  });
+
+  test('recognizes stop commands', () => {
+    expect(isStopCommand('停止')).toBe(true);
+    expect(isStopCommand('取消全部。')).toBe(true);
+    expect(isStopCommand('Stop!')).toBe(true);
+    expect(isStopCommand('取消')).toBe(false);
+    expect(isStopCommand('停止录音然后返回')).toBe(false);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * @format
+ */
+
+import {
+  addUserAlias,
+  removeUserAlias,
+  resolveAppName,
+  searchInstalledApps,
+  setInstalledApps,
+} from '../appResolver';
+import type { InstalledApp } from '../automation';
+
+const INSTALLED: InstalledApp[] = [
+  {
+    packageName: 'com.coolapk.market',
+    label: '酷安',
+    iconUri: null,
+    launchable: true,
+  },
+  {
+    packageName: 'com.android.providers.downloads',
+    label: '下载管理',
+    iconUri: null,
+    launchable: false,
+  },
+  {
+    packageName: 'com.spotify.music',
+    label: 'Spotify',
+    iconUri: null,
+    launchable: true,
+  },
+];
+
+describe('resolveAppName', () => {
+  test('passes raw package names through untouched', () => {
+    expect(resolveAppName('com.eg.android.AlipayGphone')).toEqual({
+      packageName: 'com.eg.android.AlipayGphone',
+      name: 'com.eg.android.AlipayGphone',
+      source: 'package',
+      score: 1,
+    });
+  });
+
+  test('resolves built-in aliases', () => {
+    expect(resolveAppName('微信')).toMatchObject({
+      packageName: 'com.tencent.mm',
+      source: 'builtin',
+      score: 1,
+    });
+    expect(resolveAppName('支付宝')?.packageName).toBe(
+      'com.eg.android.AlipayGphone',
+    );
+    expect(resolveAppName('企业微信')?.packageName).toBe('com.tencent.wework');
+    expect(resolveAppName('wechat')?.packageName).toBe('com.tencent.mm');
+  });
+
+  test('tolerates homophones, suffixes and short names', () => {
+    expect(resolveAppName('维信')?.packageName).toBe('com.tencent.mm');
+    expect(resolveAppName('支付包')?.packageName).toBe(
+      'com.eg.android.AlipayGphone',
+    );
+    expect(resolveAppName('抖音app')?.packageName).toBe(
+      'com.ss.android.ugc.aweme',
+    );
+    expect(resolveAppName('高德地图')?.packageName).toBe(
+      'com.autonavi.minimap',
+    );
+  });
+
+  test('returns null when nothing is close enough', () => {
+    expect(resolveAppName('天气预报')).toBeNull();
+    expect(resolveAppName('  ')).toBeNull();
+  });
+
+  test('prefers user aliases over built-in ones', async () => {
+    await addUserAlias('微信', 'com.tencent.mm.work');
+    expect(resolveAppName('微信')).toMatchObject({
+      packageName: 'com.tencent.mm.work',
+      source: 'user',
+    });
+
+    await removeUserAlias('微信');
+    expect(resolveAppName('微信')?.source).toBe('builtin');
+  });
+
+  test('resolves labels of installed launchable apps', () => {
+    setInstalledApps(INSTALLED);
+    try {
+      expect(resolveAppName('酷安')).toMatchObject({
+        packageName: 'com.coolapk.market',
+        source: 'installed',
+      });
+      expect(resolveAppName('spotify')?.packageName).toBe('com.spotify.music');
+      expect(resolveAppName('下载管理')).toBeNull();
+      expect(resolveAppName('微信')?.source).toBe('builtin');
+    } finally {
+      setInstalledApps([]);
+    }
+    expect(resolveAppName('酷安')).toBeNull();
+  });
+});
+
+describe('searchInstalledApps', () => {
+  test('matches labels, pinyin and package names', () => {
+    const labels = (keyword: string) =>
+      searchInstalledApps(INSTALLED, keyword).map(app => app.label);
+    expect(labels('')).toEqual(['酷安', '下载管理', 'Spotify']);
+    expect(labels('kuan')).toEqual(['酷安']);
+    expect(labels('SPOT')).toEqual(['Spotify']);
+    expect(labels('providers')).toEqual(['下载管理']);
+    expect(labels('微信')).toEqual([]);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * @format
+ */
+
+import {
+  AutomationError,
+  clickByText,
+  nativeBackend,
+  onForegroundAppChanged,
+  onWindowContentChanged,
+  openApp,
+  setAutomationBackend,
+  toAutomationError,
+  waitForText,
+} from '../automation';
+import { SimulatedDevice } from '../simulatedDevice';
+
+const device = new SimulatedDevice();
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  device.reset();
+  setAutomationBackend(device);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+afterAll(() => {
+  setAutomationBackend(nativeBackend);
+});
+
+describe('accessibility events', () => {
+  test('reports foreground changes after the debounce window', async () => {
+    const listener = jest.fn();
+    const unsubscribe = onForegroundAppChanged(listener, { debounceMs: 100 });
+
+    await openApp('com.android.launcher');
+    await openApp('com.tencent.mm');
+    await openApp('com.tencent.mm');
+    expect(listener).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(100);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({
+      packageName: 'com.tencent.mm',
+      className: null,
+    });
+
+    unsubscribe();
+    await openApp('com.eg.android.AlipayGphone');
+    jest.advanceTimersByTime(100);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  test('coalesces bursts of content changes', () => {
+    const listener = jest.fn();
+    const unsubscribe = onWindowContentChanged(listener);
+
+    for (let i = 0; i < 5; i++) {
+      device.emit('windowContentChanged', { packageName: 'com.tencent.mm' });
+      jest.advanceTimersByTime(100);
+    }
+    expect(listener).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(300);
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    // 取消订阅时丢弃尚未通知的事件
+    device.emit('windowContentChanged', { packageName: 'com.tencent.mm' });
+    unsubscribe();
+    jest.advanceTimersByTime(300);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  test('delivers every event when debouncing is off', () => {
+    const listener = jest.fn();
+    onWindowContentChanged(listener, { debounceMs: 0 })();
+    const second = jest.fn();
+    const unsubscribe = onWindowContentChanged(second, { debounceMs: 0 });
+    device.emit('windowContentChanged', { packageName: null });
+    device.emit('windowContentChanged', { packageName: null });
+    unsubscribe();
+    expect(listener).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('automation errors', () => {
+  test('keeps known native codes and maps the rest to UNKNOWN', () => {
+    const native = Object.assign(new Error('No launchable activity'), {
+      code: 'APP_NOT_INSTALLED',
+    });
+    expect(toAutomationError(native)).toMatchObject({
+      code: 'APP_NOT_INSTALLED',
+      message: 'No launchable activity',
+    });
+    expect(toAutomationError(new Error('boom')).code).toBe('UNKNOWN');
+    expect(toAutomationError('boom')).toBeInstanceOf(AutomationError);
+  });
+
+  test('rejects with stable codes instead of resolving false', async () => {
+    await expect(clickByText('发送')).rejects.toMatchObject({
+      code: 'NODE_NOT_FOUND',
+    });
+    await expect(waitForText('发送', { timeoutMs: 0 })).rejects.toMatchObject({
+      code: 'TIMEOUT',
+    });
+
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+      waitForText('发送', { signal: controller.signal }),
+    ).rejects.toMatchObject({ code: 'CANCELLED' });
+  });
+});
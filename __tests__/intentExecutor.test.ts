@@ -0,0 +1,324 @@
+/**
+ * @format
+ */
+
+import {
+  AutomationError,
+  nativeBackend,
+  setAutomationBackend,
+  setText,
+  type GestureStroke,
+} from '../automation';
+import { executeSteps } from '../intentExecutor';
+import { parseCommand } from '../intentParser';
+import { createMacro } from '../macros';
+import { getScreenSize } from '../screen';
+import { SimulatedDevice } from '../simulatedDevice';
+
+const device = new SimulatedDevice();
+
+beforeEach(() => {
+  device.reset();
+  setAutomationBackend(device);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+afterAll(() => {
+  setAutomationBackend(nativeBackend);
+});
+
+function run(command: string) {
+  return executeSteps(parseCommand(command), { stepDelayMs: 0 });
+}
+
+describe('executeSteps', () => {
+  test('records every automation call in order', async () => {
+    const results = await run('打开微信然后点击 100,200 再输入 你好');
+    expect(results.map(result => result.success)).toEqual([true, true, true]);
+    expect(device.calls).toEqual([
+      { method: 'openApp', args: ['com.tencent.mm'] },
+      { method: 'getForegroundApp', args: [] },
+      { method: 'tap', args: [100, 200, 80] },
+      { method: 'setText', args: ['你好', null, 0, 'replace'] },
+    ]);
+    expect(device.foregroundApp).toBe('com.tencent.mm');
+  });
+
+  test('resolves relative points against the screen size', async () => {
+    await run('点击屏幕中间然后向上滑动');
+    const [[x, y]] = device.callsOf('tap') as number[][];
+    const [[, startY, , endY]] = device.callsOf('swipe') as number[][];
+    expect(x).toBeGreaterThan(0);
+    expect(y).toBeGreaterThan(0);
+    expect(startY).toBeGreaterThan(endY);
+  });
+
+  test('stops at the first scripted failure', async () => {
+    device.failWith(
+      'tap',
+      new AutomationError('GESTURE_CANCELLED', 'Gesture was cancelled'),
+    );
+    const results = await run('点击 1,2 然后输入 你好');
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({
+      success: false,
+      message: '手势被打断',
+      errorCode: 'GESTURE_CANCELLED',
+    });
+    expect(device.callsOf('setText')).toEqual([]);
+  });
+
+  test('explains error codes and suggests a fix', async () => {
+    device.serviceRunning = false;
+    const [disabled] = await run('输入 你好');
+    expect(disabled).toMatchObject({
+      success: false,
+      message: '无障碍服务未开启',
+      errorCode: 'SERVICE_NOT_RUNNING',
+    });
+    expect(disabled.fix).toContain('打开无障碍设置');
+
+    device.serviceRunning = true;
+    device.failWith('tap', 'bridge exploded');
+    expect((await run('点击 1,2'))[0]).toMatchObject({
+      message: '执行失败: bridge exploded',
+      errorCode: 'UNKNOWN',
+    });
+
+    device.installedPackages = ['com.tencent.mm'];
+    expect((await run('打开支付宝'))[0]).toMatchObject({
+      success: false,
+      errorCode: 'APP_NOT_INSTALLED',
+    });
+  });
+
+  test('sets text and reports why input failed', async () => {
+    await run('输入 你好');
+    expect(device.focusedField?.text).toBe('你好');
+
+    const input = {
+      text: '早',
+      contentDescription: null,
+      viewId: 'com.tencent.mm:id/input',
+      className: 'android.widget.EditText',
+      bounds: { left: 0, top: 0, right: 100, bottom: 100 },
+      clickable: true,
+      editable: true,
+    };
+    device.nodes = [input];
+    expect(
+      await setText('上好', { target: { id: 'input' }, mode: 'append' }),
+    ).toBe('setText');
+    expect(input.text).toBe('早上好');
+    await expect(
+      setText('x', { target: { id: 'missing' } }),
+    ).rejects.toMatchObject({ code: 'NODE_NOT_FOUND' });
+
+    device.focusedField = null;
+    expect((await run('输入 你好'))[0].message).toContain(
+      '没有获得焦点的输入框',
+    );
+
+    device.failWith(
+      'setText',
+      new AutomationError('NOT_EDITABLE', 'Target is not editable'),
+    );
+    expect((await run('输入 你好'))[0]).toMatchObject({
+      success: false,
+      message: '目标控件不可编辑',
+    });
+  });
+
+  test('clicks elements by text and position', async () => {
+    const button = (text: string, top: number) => ({
+      text,
+      contentDescription: null,
+      viewId: 'com.tencent.mm:id/send',
+      className: 'android.widget.Button',
+      bounds: { left: 0, top, right: 100, bottom: top + 50 },
+      clickable: true,
+      editable: false,
+    });
+    device.nodes = [button('发送', 900), button('发送原图', 100)];
+
+    await run('点击最下面的 “发送” 然后点击 id send');
+    expect(device.callsOf('clickNode')).toEqual([
+      [{ text: '发送' }, 0],
+      [{ id: 'send', exact: true }, 1],
+    ]);
+
+    const [missing] = await run('点击 “取消”');
+    expect(missing).toMatchObject({
+      success: false,
+      message: '未找到可点击的 “取消”',
+    });
+  });
+
+  test('waits for text to appear before the next step', async () => {
+    device
+      .respondWith('findNodes', [])
+      .respondWith('waitForWindowChange', true);
+    device.nodes = [
+      {
+        text: '发送',
+        contentDescription: null,
+        viewId: null,
+        className: 'android.widget.Button',
+        bounds: { left: 0, top: 0, right: 10, bottom: 10 },
+        clickable: true,
+        editable: false,
+      },
+    ];
+
+    const results = await run('等待 “发送” 出现然后点击 “发送”');
+    expect(results.map(result => result.message)).toEqual([
+      '“发送” 已出现',
+      '已点击 “发送”',
+    ]);
+    expect(device.callsOf('findNodes')).toHaveLength(3);
+  });
+
+  test('fails the step when a wait times out', async () => {
+    device.nodes = [
+      {
+        text: '加载中',
+        contentDescription: null,
+        viewId: null,
+        className: 'android.widget.TextView',
+        bounds: { left: 0, top: 0, right: 10, bottom: 10 },
+        clickable: false,
+        editable: false,
+      },
+    ];
+    const [result] = await run('等待 “加载中” 消失 最多 0 秒');
+    expect(result).toEqual(
+      expect.objectContaining({
+        success: false,
+        message: '等待 “加载中” 消失超时（0 秒）',
+      }),
+    );
+
+    device.nodes = [];
+    expect((await run('等待界面稳定，最多 1 秒'))[0]).toMatchObject({
+      success: true,
+      message: '界面已稳定',
+    });
+  });
+
+  test('builds multi-stroke gestures', async () => {
+    await run('长按 100,200 然后双击 100,200 再缩小 540,1000');
+    expect(device.callsOf('tap')).toEqual([[100, 200, 800]]);
+    const [[doubleTap], [pinch]] = device.callsOf(
+      'dispatchGesture',
+    ) as GestureStroke[][][];
+    expect(doubleTap.map(stroke => stroke.startMs)).toEqual([0, 140]);
+    expect(pinch).toHaveLength(2);
+    const [left, right] = pinch;
+    expect(left.points[0].x).toBeLessThan(left.points[1].x);
+    expect(right.points[0].x).toBeGreaterThan(right.points[1].x);
+    expect(left.startMs).toBe(right.startMs);
+  });
+
+  test('keeps both fingers on screen when zooming near an edge', async () => {
+    const { width } = getScreenSize();
+    await run(`放大 20,500 然后缩小 ${width - 5},500`);
+    const [[zoomIn], [zoomOut]] = device.callsOf(
+      'dispatchGesture',
+    ) as GestureStroke[][][];
+    for (const gesture of [...zoomIn, ...zoomOut]) {
+      for (const point of gesture.points) {
+        expect(point.x).toBeGreaterThanOrEqual(0);
+        expect(point.x).toBeLessThan(width);
+      }
+    }
+    const spread = ([left, right]: GestureStroke[], at: number) =>
+      right.points[at].x - left.points[at].x;
+    expect(spread(zoomIn, 1)).toBeGreaterThan(spread(zoomIn, 0));
+    expect(spread(zoomOut, 1)).toBeLessThan(spread(zoomOut, 0));
+  });
+
+  test('performs system actions', async () => {
+    expect((await run('回到桌面然后下拉通知栏')).map(r => r.message)).toEqual([
+      '已回到桌面',
+      '已下拉通知栏',
+    ]);
+    expect(device.callsOf('performGlobalAction')).toEqual([
+      ['home'],
+      ['notifications'],
+    ]);
+
+    device.failWith(
+      'performGlobalAction',
+      new AutomationError('UNSUPPORTED', 'Requires Android 9'),
+    );
+    expect((await run('锁屏'))[0]).toMatchObject({
+      success: false,
+      message: '锁屏失败，需要 Android 9 及以上',
+    });
+  });
+
+  test('captures the screen before and after each step', async () => {
+    jest.useFakeTimers();
+    const capture = async (command: string) => {
+      const pending = executeSteps(parseCommand(command), {
+        stepDelayMs: 0,
+        captureScreenshots: true,
+      });
+      await jest.runAllTimersAsync();
+      return pending;
+    };
+    device.failWith(
+      'captureScreenshot',
+      new AutomationError('UNSUPPORTED', 'Requires Android 11'),
+    );
+    const results = await capture('点击 1,2 然后返回');
+    expect(results.map(result => result.screenshots)).toEqual([
+      { before: undefined, after: 'file:///simulated/screenshot-2.jpg' },
+      {
+        before: 'file:///simulated/screenshot-3.jpg',
+        after: 'file:///simulated/screenshot-4.jpg',
+      },
+    ]);
+    expect(
+      device.calls
+        .map(call => call.method)
+        .filter(method => method !== 'getForegroundApp'),
+    ).toEqual([
+      'captureScreenshot',
+      'tap',
+      'captureScreenshot',
+      'captureScreenshot',
+      'performGlobalAction',
+      'captureScreenshot',
+    ]);
+
+    expect((await run('返回'))[0].screenshots).toBeUndefined();
+
+    // 敏感应用中不截图
+    device.reset();
+    device.foregroundApp = 'com.eg.android.AlipayGphone';
+    expect((await capture('点击 1,2'))[0].screenshots).toEqual({
+      before: undefined,
+      after: undefined,
+    });
+    expect(device.callsOf('captureScreenshot')).toEqual([]);
+  });
+
+  test('runs macros on the same backend', async () => {
+    await createMacro('签到', [
+      '打开 微信',
+      'if app == 微信 {',
+      '  点击 5,6',
+      '}',
+    ]);
+    const results = await run('执行 签到');
+    expect(results[results.length - 1]).toMatchObject({
+      success: true,
+      message: '已执行宏 签到',
+    });
+    expect(device.callsOf('tap')).toEqual([[5, 6, 80]]);
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * @format
+ */
+
+import { matchCommand, SUGGESTION_THRESHOLD } from '../intentMatcher';
+
+describe('matchCommand', () => {
+  test('returns exact matches with full confidence', () => {
+    expect(matchCommand('打开微信', 'zh-CN')).toEqual([
+      expect.objectContaining({ text: '打开微信', confidence: 1 }),
+    ]);
+  });
+
+  test('corrects homophones of command keywords', () => {
+    const [best] = matchCommand('大开微信', 'zh-CN');
+    expect(best).toMatchObject({
+      text: '打开微信',
+      confidence: 0.9,
+      intents: [{ type: 'OpenApp', target: '微信' }],
+    });
+    expect(best.confidence).toBeGreaterThanOrEqual(SUGGESTION_THRESHOLD);
+
+    expect(matchCommand('点机 100,200', 'zh-CN')[0]).toMatchObject({
+      text: '点击 100,200',
+      intents: [{ type: 'Tap', point: { x: 100, y: 200, unit: 'px' } }],
+    });
+  });
+
+  test('scores small edit distances below the suggestion threshold', () => {
+    const [best] = matchCommand('打看微信', 'zh-CN');
+    expect(best.text).toBe('打开微信');
+    expect(best.confidence).toBeLessThan(SUGGESTION_THRESHOLD);
+
+    const [english] = matchCommand('tab 100, 200', 'en-US');
+    expect(english).toMatchObject({
+      text: 'tap 100, 200',
+      intents: [{ type: 'Tap' }],
+    });
+    expect(english.confidence).toBeLessThan(SUGGESTION_THRESHOLD);
+  });
+
+  test('keeps the exact parse when nothing can be corrected', () => {
+    expect(matchCommand('你好', 'zh-CN')).toEqual([
+      expect.objectContaining({ text: '你好', confidence: 0 }),
+    ]);
+  });
+});
@@ -0,0 +1,481 @@
+/**
+ * @format
+ */
+
+import { parseCommand, parseIntent, splitCommand } from '../intentParser';
+import { parseChineseNumber } from '../numberNormalizer';
+import { toPixels } from '../screen';
+
+describe('parseIntent', () => {
+  test('parses open app commands', () => {
+    expect(parseIntent('打开 com.tencent.mm')).toEqual({
+      type: 'OpenApp',
+      target: 'com.tencent.mm',
+      span: { start: 0, end: 17, text: '打开 com.tencent.mm' },
+    });
+    expect(parseIntent('启动com.eg.android.AlipayGphone')).toMatchObject({
+      type: 'OpenApp',
+      target: 'com.eg.android.AlipayGphone',
+    });
+  });
+
+  test('keeps the whole spoken app name', () => {
+    expect(parseIntent('打开微信')).toMatchObject({
+      type: 'OpenApp',
+      target: '微信',
+    });
+    expect(parseIntent('请帮我启动 高德 地图。')).toMatchObject({
+      type: 'OpenApp',
+      target: '高德 地图',
+      span: { start: 3, end: 11, text: '启动 高德 地图' },
+    });
+  });
+
+  test('parses tap coordinates with either comma', () => {
+    expect(parseIntent('点击 100,200')).toMatchObject({
+      type: 'Tap',
+      point: { x: 100, y: 200, unit: 'px' },
+    });
+    expect(parseIntent('请点击100，200')).toEqual({
+      type: 'Tap',
+      point: { x: 100, y: 200, unit: 'px' },
+      span: { start: 1, end: 10, text: '点击100，200' },
+    });
+  });
+
+  test('parses swipe coordinates', () => {
+    expect(parseIntent('滑动 100,200 到 300,400')).toMatchObject({
+      type: 'Swipe',
+      from: { x: 100, y: 200, unit: 'px' },
+      to: { x: 300, y: 400, unit: 'px' },
+    });
+  });
+
+  test('parses input text without changing its case', () => {
+    expect(parseIntent('输入 Hello World')).toMatchObject({
+      type: 'InputText',
+      text: 'Hello World',
+    });
+    expect(parseIntent('粘贴 你好')).toMatchObject({
+      type: 'InputText',
+      text: '你好',
+    });
+  });
+
+  test('returns a format hint when arguments are missing', () => {
+    expect(parseIntent('点击')).toMatchObject({
+      type: 'Unknown',
+      hint: '无法识别坐标，请使用格式：点击 100,200、点击 50%,80% 或 点击屏幕中间',
+    });
+    expect(parseIntent('滑动 100,200')).toMatchObject({ type: 'Unknown' });
+  });
+
+  test('falls back to an unknown intent spanning the trimmed command', () => {
+    expect(parseIntent('  你好  ')).toEqual({
+      type: 'Unknown',
+      span: { start: 2, end: 4, text: '你好' },
+    });
+  });
+});
+
+describe('parseCommand', () => {
+  test('splits compound commands on connectives', () => {
+    const command = '打开微信然后点击 500,1200 再输入 你好';
+    expect(splitCommand(command).map(step => step.text)).toEqual([
+      '打开微信',
+      '点击 500,1200',
+      '输入 你好',
+    ]);
+
+    const intents = parseCommand(command);
+    expect(intents.map(intent => intent.type)).toEqual([
+      'OpenApp',
+      'Tap',
+      'InputText',
+    ]);
+    expect(intents[1].span).toEqual({
+      start: 6,
+      end: 17,
+      text: '点击 500,1200',
+    });
+    expect(command.slice(intents[2].span.start, intents[2].span.end)).toBe(
+      '输入 你好',
+    );
+  });
+
+  test('splits on punctuation followed by a command keyword', () => {
+    expect(
+      splitCommand('打开微信，接着滑动 100,200 到 300,400；点击 1,2').map(
+        step => step.text,
+      ),
+    ).toEqual(['打开微信', '滑动 100,200 到 300,400', '点击 1,2']);
+  });
+
+  test('keeps connectives that are not followed by a command', () => {
+    expect(parseCommand('输入 再见，然后呢')).toEqual([
+      {
+        type: 'InputText',
+        text: '再见，然后呢',
+        span: { start: 0, end: 9, text: '输入 再见，然后呢' },
+      },
+    ]);
+    expect(parseCommand('点击 100，200')).toHaveLength(1);
+  });
+});
+
+describe('spoken numbers', () => {
+  test('parses Chinese numerals', () => {
+    expect(parseChineseNumber('一百二十')).toBe(120);
+    expect(parseChineseNumber('一百零五')).toBe(105);
+    expect(parseChineseNumber('一百二')).toBe(120);
+    expect(parseChineseNumber('十二')).toBe(12);
+    expect(parseChineseNumber('两千三')).toBe(2300);
+    expect(parseChineseNumber('一千零五十')).toBe(1050);
+    expect(parseChineseNumber('一二零')).toBe(120);
+    expect(parseChineseNumber('一万二千')).toBe(12000);
+    expect(parseChineseNumber('你好')).toBeNull();
+  });
+
+  test('normalizes numbers in tap commands', () => {
+    expect(parseIntent('点击一百二十,三百')).toEqual({
+      type: 'Tap',
+      point: { x: 120, y: 300, unit: 'px' },
+      span: { start: 0, end: 9, text: '点击一百二十,三百' },
+    });
+    expect(parseIntent('点击 120 逗号 300')).toMatchObject({
+      point: { x: 120, y: 300, unit: 'px' },
+    });
+    expect(parseIntent('点击１２０，３００')).toMatchObject({
+      point: { x: 120, y: 300, unit: 'px' },
+    });
+    expect(parseIntent('点击 五百 和 一千二')).toMatchObject({
+      point: { x: 500, y: 1200, unit: 'px' },
+    });
+  });
+
+  test('normalizes numbers in swipe commands', () => {
+    expect(parseIntent('滑动 一百 逗号 两百 到 三百 逗号 四百')).toMatchObject({
+      type: 'Swipe',
+      from: { x: 100, y: 200, unit: 'px' },
+      to: { x: 300, y: 400, unit: 'px' },
+    });
+    expect(parseIntent('滑动100,200到300,400')).toMatchObject({
+      type: 'Swipe',
+      to: { x: 300, y: 400, unit: 'px' },
+    });
+  });
+
+  test('leaves typed text untouched', () => {
+    expect(parseIntent('输入 一百二十个人')).toMatchObject({
+      type: 'InputText',
+      text: '一百二十个人',
+    });
+  });
+});
+
+describe('screen-relative commands', () => {
+  test('parses named screen regions', () => {
+    expect(parseIntent('点击屏幕中间')).toEqual({
+      type: 'Tap',
+      point: { x: 0.5, y: 0.5, unit: 'ratio' },
+      span: { start: 0, end: 6, text: '点击屏幕中间' },
+    });
+    expect(parseIntent('点击右下角')).toMatchObject({
+      point: { x: 0.9, y: 0.9, unit: 'ratio' },
+    });
+  });
+
+  test('parses percentage coordinates', () => {
+    expect(parseIntent('点击 50%,80%')).toMatchObject({
+      type: 'Tap',
+      point: { x: 0.5, y: 0.8, unit: 'ratio' },
+    });
+    expect(parseIntent('点击百分之五十逗号百分之八十')).toMatchObject({
+      point: { x: 0.5, y: 0.8, unit: 'ratio' },
+    });
+    expect(parseIntent('点击 50%,800')).toMatchObject({ type: 'Unknown' });
+    expect(parseIntent('点击 150%,80%')).toMatchObject({
+      type: 'Unknown',
+      hint: expect.stringContaining('50%,80%'),
+    });
+  });
+
+  test('parses directional swipes', () => {
+    expect(parseIntent('向上滑动')).toEqual({
+      type: 'Swipe',
+      from: { x: 0.5, y: 0.8, unit: 'ratio' },
+      to: { x: 0.5, y: 0.2, unit: 'ratio' },
+      span: { start: 0, end: 4, text: '向上滑动' },
+    });
+    expect(parseIntent('向左滑一半')).toMatchObject({
+      from: { x: 0.75, y: 0.5, unit: 'ratio' },
+      to: { x: 0.25, y: 0.5, unit: 'ratio' },
+    });
+    expect(parseIntent('下滑 30%')).toMatchObject({
+      from: { x: 0.5, y: 0.35, unit: 'ratio' },
+      to: { x: 0.5, y: 0.65, unit: 'ratio' },
+    });
+    expect(parseCommand('打开微信然后向上滑动').map(i => i.type)).toEqual([
+      'OpenApp',
+      'Swipe',
+    ]);
+  });
+
+  test('parses taps on UI elements', () => {
+    expect(parseIntent('点击 “发送”')).toEqual({
+      type: 'TapElement',
+      query: { text: '发送' },
+      selector: { index: 0 },
+      span: { start: 0, end: 7, text: '点击 “发送”' },
+    });
+    expect(parseIntent('点击第二个"确定"')).toMatchObject({
+      query: { text: '确定' },
+      selector: { index: 1 },
+    });
+    expect(parseIntent('点击最下面的按钮 发送')).toMatchObject({
+      query: { text: '发送' },
+      selector: { position: 'bottom' },
+    });
+    expect(parseIntent('点击 id send_button')).toMatchObject({
+      query: { id: 'send_button', exact: true },
+    });
+    expect(parseIntent('点击 “中间”')).toMatchObject({ type: 'TapElement' });
+    expect(parseIntent('tap the second "OK"', 'en-US')).toMatchObject({
+      query: { text: 'OK' },
+      selector: { index: 1 },
+    });
+    expect(parseIntent('click the bottom "Send"', 'en-US')).toMatchObject({
+      selector: { position: 'bottom' },
+    });
+    expect(parseIntent('tap the top left', 'en-US')).toMatchObject({
+      type: 'Tap',
+    });
+  });
+
+  test('parses wait conditions', () => {
+    expect(parseIntent('等待 “发送” 出现')).toEqual({
+      type: 'Wait',
+      condition: { kind: 'text', text: '发送', gone: false },
+      timeoutMs: undefined,
+      span: { start: 0, end: 10, text: '等待 “发送” 出现' },
+    });
+    expect(parseIntent('等待“加载中”消失，最多五秒')).toMatchObject({
+      condition: { kind: 'text', text: '加载中', gone: true },
+      timeoutMs: 5000,
+      span: { text: '等待“加载中”消失，最多五秒' },
+    });
+    expect(parseIntent('等待微信打开')).toMatchObject({
+      condition: { kind: 'app', app: '微信' },
+    });
+    expect(parseIntent('等待界面稳定')).toMatchObject({
+      condition: { kind: 'idle' },
+    });
+    expect(
+      parseCommand('打开微信然后等待微信打开再点击 “通讯录”').map(i => i.type),
+    ).toEqual(['OpenApp', 'Wait', 'TapElement']);
+
+    expect(
+      parseIntent('wait until "Loading" disappears up to 3 seconds', 'en-US'),
+    ).toMatchObject({
+      condition: { kind: 'text', text: 'Loading', gone: true },
+      timeoutMs: 3000,
+    });
+    expect(parseIntent('wait for WeChat to open', 'en-US')).toMatchObject({
+      condition: { kind: 'app', app: 'WeChat' },
+    });
+    expect(parseIntent('wait until the screen is idle', 'en-US')).toMatchObject(
+      { condition: { kind: 'idle' } },
+    );
+  });
+
+  test('parses gestures', () => {
+    expect(parseIntent('长按 300,400')).toEqual({
+      type: 'LongPress',
+      point: { x: 300, y: 400, unit: 'px' },
+      span: { start: 0, end: 10, text: '长按 300,400' },
+    });
+    expect(parseIntent('双击屏幕中间')).toMatchObject({
+      type: 'DoubleTap',
+      point: { x: 0.5, y: 0.5, unit: 'ratio' },
+    });
+    expect(parseIntent('放大')).toMatchObject({
+      type: 'Pinch',
+      zoomIn: true,
+      center: { x: 0.5, y: 0.5, unit: 'ratio' },
+    });
+    expect(parseIntent('双指缩小 200,300')).toMatchObject({
+      zoomIn: false,
+      center: { x: 200, y: 300 },
+    });
+    expect(parseIntent('画线 100,200 到 300,400 到 三百,六百')).toMatchObject({
+      type: 'GesturePath',
+      points: [
+        { x: 100, y: 200 },
+        { x: 300, y: 400 },
+        { x: 300, y: 600 },
+      ],
+    });
+    expect(
+      parseCommand('长按中间然后点击 “复制”').map(intent => intent.type),
+    ).toEqual(['LongPress', 'TapElement']);
+
+    expect(parseIntent('long press the center', 'en-US')).toMatchObject({
+      type: 'LongPress',
+    });
+    expect(parseIntent('double tap 300, 400', 'en-US')).toMatchObject({
+      type: 'DoubleTap',
+      point: { x: 300, y: 400 },
+    });
+    expect(parseIntent('zoom out at the top', 'en-US')).toMatchObject({
+      zoomIn: false,
+      center: { x: 0.5, y: 0.1 },
+    });
+    expect(parseIntent('pinch out', 'en-US')).toMatchObject({ zoomIn: true });
+    expect(parseIntent('draw 10, 20 to 30, 40', 'en-US')).toMatchObject({
+      points: [{ x: 10 }, { x: 30 }],
+    });
+  });
+
+  test('parses system actions', () => {
+    expect(parseIntent('返回')).toEqual({
+      type: 'GlobalAction',
+      action: 'back',
+      span: { start: 0, end: 2, text: '返回' },
+    });
+    expect(parseIntent('回到桌面')).toMatchObject({ action: 'home' });
+    expect(parseIntent('打开通知栏')).toMatchObject({
+      type: 'GlobalAction',
+      action: 'notifications',
+    });
+    expect(
+      parseCommand('打开微信，下拉通知栏然后返回桌面').map(intent =>
+        intent.type === 'GlobalAction' ? intent.action : intent.type,
+      ),
+    ).toEqual(['OpenApp', 'notifications', 'home']);
+    expect(parseIntent('点击 “返回”')).toMatchObject({ type: 'TapElement' });
+
+    expect(parseIntent('Go  Back', 'en-US')).toMatchObject({ action: 'back' });
+    expect(parseIntent('open quick settings', 'en-US')).toMatchObject({
+      action: 'quickSettings',
+    });
+    expect(
+      parseCommand('open WeChat then take a screenshot', 'en-US').map(
+        intent => intent.type,
+      ),
+    ).toEqual(['OpenApp', 'GlobalAction']);
+  });
+
+  test('uses the first keyword to pick the command', () => {
+    expect(parseIntent('输入 点击这里')).toMatchObject({
+      type: 'InputText',
+      text: '点击这里',
+    });
+  });
+
+  test('resolves relative points against the screen size', () => {
+    const size = { width: 1080, height: 2400 };
+    expect(toPixels({ x: 0.5, y: 0.8, unit: 'ratio' }, size)).toEqual({
+      x: 540,
+      y: 1920,
+    });
+    expect(toPixels({ x: 12, y: 34, unit: 'px' }, size)).toEqual({
+      x: 12,
+      y: 34,
+    });
+  });
+});
+
+describe('macros', () => {
+  test('parses macro invocations', () => {
+    expect(parseIntent('执行 签到')).toEqual({
+      type: 'RunMacro',
+      name: '签到',
+      span: { start: 0, end: 5, text: '执行 签到' },
+    });
+    expect(parseIntent('运行宏每日打卡。')).toMatchObject({
+      type: 'RunMacro',
+      name: '每日打卡',
+    });
+    expect(parseCommand('打开微信然后执行签到').map(i => i.type)).toEqual([
+      'OpenApp',
+      'RunMacro',
+    ]);
+  });
+});
+
+describe('en-US grammar', () => {
+  test('parses English commands', () => {
+    expect(parseIntent('open WeChat', 'en-US')).toEqual({
+      type: 'OpenApp',
+      target: 'WeChat',
+      span: { start: 0, end: 11, text: 'open WeChat' },
+    });
+    expect(parseIntent('tap 100, 200', 'en-US')).toMatchObject({
+      type: 'Tap',
+      point: { x: 100, y: 200, unit: 'px' },
+    });
+    expect(parseIntent('Type Hello World', 'en-US')).toMatchObject({
+      type: 'InputText',
+      text: 'Hello World',
+    });
+    expect(parseIntent('run the macro check in.', 'en-US')).toMatchObject({
+      type: 'RunMacro',
+      name: 'check in',
+    });
+  });
+
+  test('parses spoken separators, regions and swipes', () => {
+    expect(parseIntent('tap 50 percent comma 80 percent', 'en-US')).toEqual({
+      type: 'Tap',
+      point: { x: 0.5, y: 0.8, unit: 'ratio' },
+      span: { start: 0, end: 31, text: 'tap 50 percent comma 80 percent' },
+    });
+    expect(parseIntent('click the bottom right corner', 'en-US')).toMatchObject(
+      { point: { x: 0.9, y: 0.9, unit: 'ratio' } },
+    );
+    expect(parseIntent('swipe up', 'en-US')).toMatchObject({
+      type: 'Swipe',
+      from: { x: 0.5, y: 0.8, unit: 'ratio' },
+      to: { x: 0.5, y: 0.2, unit: 'ratio' },
+    });
+    expect(parseIntent('swipe left halfway', 'en-US')).toMatchObject({
+      from: { x: 0.75, y: 0.5 },
+      to: { x: 0.25, y: 0.5 },
+    });
+    expect(
+      parseIntent('swipe from 100 and 200 to 300, 400', 'en-US'),
+    ).toMatchObject({
+      from: { x: 100, y: 200, unit: 'px' },
+      to: { x: 300, y: 400, unit: 'px' },
+    });
+  });
+
+  test('splits compound English commands', () => {
+    const command = 'open WeChat then tap 100, 200 and type hello, world';
+    expect(splitCommand(command, 'en-US').map(step => step.text)).toEqual([
+      'open WeChat',
+      'tap 100, 200',
+      'type hello, world',
+    ]);
+    expect(parseCommand(command, 'en-US')[1].span).toEqual({
+      start: 17,
+      end: 29,
+      text: 'tap 100, 200',
+    });
+  });
+
+  test('falls back to the other grammar when no keyword matches', () => {
+    expect(parseIntent('打开微信', 'en-US')).toMatchObject({
+      type: 'OpenApp',
+      target: '微信',
+    });
+    expect(parseIntent('open WeChat')).toMatchObject({
+      type: 'OpenApp',
+      target: 'WeChat',
+    });
+    expect(parseIntent('tap', 'en-US')).toMatchObject({
+      type: 'Unknown',
+      hint: expect.stringContaining('tap 100, 200'),
+    });
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * @format
+ */
+
+import {
+  DEFAULT_LLM_CONFIG,
+  LlmParserError,
+  parseWithLlm,
+} from '../llmIntentParser';
+
+const config = { ...DEFAULT_LLM_CONFIG, enabled: true, timeoutMs: 50 };
+
+function respondWith(body: unknown, status = 200) {
+  return jest.fn(
+    async () =>
+      ({
+        ok: status >= 200 && status < 300,
+        status,
+        json: async () => body,
+      } as Response),
+  );
+}
+
+function toolCalls(...calls: [string, unknown][]) {
+  return {
+    choices: [
+      {
+        message: {
+          tool_calls: calls.map(([name, args]) => ({
+            type: 'function',
+            function: { name, arguments: JSON.stringify(args) },
+          })),
+        },
+      },
+    ],
+  };
+}
+
+describe('parseWithLlm', () => {
+  test('maps tool calls to intents in order', async () => {
+    const fetchImpl = respondWith(
+      toolCalls(
+        ['open_app', { app: '微信' }],
+        ['tap', { x: 0.5, y: 0.8, relative: true }],
+        ['swipe', { direction: 'up' }],
+        ['input_text', { text: '早上好' }],
+      ),
+    );
+
+    const intents = await parseWithLlm('给张三发早上好', config, fetchImpl);
+
+    expect(intents.map(intent => intent.type)).toEqual([
+      'OpenApp',
+      'Tap',
+      'Swipe',
+      'InputText',
+    ]);
+    expect(intents[0]).toMatchObject({ target: '微信' });
+    expect(intents[1]).toMatchObject({
+      point: { x: 0.5, y: 0.8, unit: 'ratio' },
+    });
+    expect(intents[3].span.text).toBe('给张三发早上好');
+
+    const [url, init] = fetchImpl.mock.calls[0] as unknown as [
+      string,
+      RequestInit,
+    ];
+    expect(url).toBe('http://127.0.0.1:8080/v1/chat/completions');
+    expect(JSON.parse(init.body as string)).toMatchObject({
+      model: DEFAULT_LLM_CONFIG.model,
+      messages: [
+        { role: 'system' },
+        { role: 'user', content: '给张三发早上好' },
+      ],
+    });
+  });
+
+  test('maps gesture tools', async () => {
+    const intents = await parseWithLlm(
+      '放大地图然后画个 Z',
+      config,
+      respondWith(
+        toolCalls(
+          ['pinch', { zoom_in: true }],
+          [
+            'draw_path',
+            {
+              points: [
+                { x: 1, y: 2 },
+                { x: 3, y: 4 },
+              ],
+            },
+          ],
+          ['long_press', { x: 5 }],
+        ),
+      ),
+    );
+
+    expect(intents).toMatchObject([
+      { type: 'Pinch', zoomIn: true, center: { x: 0.5, y: 0.5 } },
+      {
+        type: 'GesturePath',
+        points: [
+          { x: 1, y: 2, unit: 'px' },
+          { x: 3, y: 4, unit: 'px' },
+        ],
+      },
+      { type: 'Unknown' },
+    ]);
+  });
+
+  test('turns malformed tool calls into unknown steps', async () => {
+    const intents = await parseWithLlm(
+      '点一下',
+      config,
+      respondWith(toolCalls(['tap', { x: 'left' }], ['reboot', {}])),
+    );
+
+    expect(intents.map(intent => intent.type)).toEqual(['Unknown', 'Unknown']);
+  });
+
+  test('rejects tool arguments that are not objects', async () => {
+    const intents = await parseWithLlm(
+      '打开微信',
+      config,
+      respondWith(toolCalls(['open_app', null], ['tap', [0.5, 0.5]])),
+    );
+
+    expect(intents).toEqual([
+      expect.objectContaining({
+        type: 'Unknown',
+        hint: '模型返回的 open_app 参数不是对象',
+      }),
+      expect.objectContaining({
+        type: 'Unknown',
+        hint: '模型返回的 tap 参数不是对象',
+      }),
+    ]);
+  });
+
+  test('rejects with a typed error when the endpoint fails', async () => {
+    const unreachable = jest.fn(async () => {
+      throw new TypeError('Network request failed');
+    });
+    await expect(parseWithLlm('打开微信', config, unreachable)).rejects.toEqual(
+      expect.objectContaining({ code: 'NETWORK' }),
+    );
+    await expect(
+      parseWithLlm('打开微信', config, respondWith({}, 500)),
+    ).rejects.toEqual(expect.objectContaining({ code: 'HTTP' }));
+    await expect(
+      parseWithLlm(
+        '打开微信',
+        config,
+        respondWith({ choices: [{ message: { content: '好的' } }] }),
+      ),
+    ).rejects.toBeInstanceOf(LlmParserError);
+  });
+
+  test('times out slow endpoints', async () => {
+    const hanging = jest.fn(
+      (_url: string, init?: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          init?.signal?.addEventListener('abort', () =>
+            reject(new Error('Aborted')),
+          );
+        }),
+    );
+
+    await expect(
+      parseWithLlm('打开微信', config, hanging as typeof fetch),
+    ).rejects.toEqual(expect.objectContaining({ code: 'TIMEOUT' }));
+  });
+
+  test('times out when the response body stalls', async () => {
+    const stalled = jest.fn(
+      async () =>
+        ({
+          ok: true,
+          status: 200,
+          json: () => new Promise(() => {}),
+        } as Response),
+    );
+
+    await expect(
+      parseWithLlm('打开微信', config, stalled as typeof fetch),
+    ).rejects.toEqual(expect.objectContaining({ code: 'TIMEOUT' }));
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * @format
+ */
+
+import {
+  createMacro,
+  deleteMacro,
+  findMacro,
+  loadMacros,
+  renameMacro,
+  updateMacro,
+} from '../macros';
+
+describe('macros', () => {
+  test('creates, edits, renames and deletes macros', async () => {
+    const macro = await createMacro(' 签到 ', [
+      '打开 微信',
+      '  ',
+      '点击 50%,80%',
+    ]);
+    expect(macro).toMatchObject({
+      name: '签到',
+      steps: ['打开 微信', '点击 50%,80%'],
+    });
+    expect(findMacro('签 到')?.id).toBe(macro.id);
+
+    await updateMacro(macro.id, { steps: ['向上滑动'] });
+    await renameMacro(macro.id, '每日签到');
+    expect(findMacro('签到')).toBeUndefined();
+    expect(findMacro('每日签到')?.steps).toEqual(['向上滑动']);
+
+    // 重新加载后仍然存在
+    expect(await loadMacros()).toHaveLength(1);
+
+    await deleteMacro(macro.id);
+    expect(findMacro('每日签到')).toBeUndefined();
+  });
+
+  test('rejects duplicate and empty names', async () => {
+    const first = await createMacro('刷新', ['向下滑动']);
+    await expect(createMacro('刷新', [])).rejects.toThrow('已存在同名宏');
+    await expect(renameMacro(first.id, '  ')).rejects.toThrow('不能为空');
+    await deleteMacro(first.id);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * @format
+ */
+
+import {
+  parseScript,
+  runScript,
+  ScriptSyntaxError,
+  type RunScriptOptions,
+} from '../scriptInterpreter';
+
+function createOptions(
+  overrides: Partial<RunScriptOptions> = {},
+): RunScriptOptions & { executed: string[] } {
+  const executed: string[] = [];
+  return {
+    executed,
+    executeCommand: async text => {
+      executed.push(text);
+      return { success: true, message: `ok: ${text}` };
+    },
+    callScript: async name => {
+      executed.push(`call ${name}`);
+      return { success: true, message: `called ${name}` };
+    },
+    isAppInForeground: async app => app === '微信',
+    ...overrides,
+  };
+}
+
+describe('parseScript', () => {
+  test('parses statements, blocks and modifiers', () => {
+    const program = parseScript(
+      [
+        '# 签到',
+        '打开 微信',
+        'wait 2s',
+        'repeat 3 {',
+        '  向上滑动',
+        '}',
+        'if app != 微信 {',
+        '  call 登录 on failure retry 2',
+        '} else {',
+        '  点击 50%,80%',
+        '}',
+      ].join('\n'),
+    );
+
+    expect(program).toEqual([
+      { kind: 'command', line: 2, text: '打开 微信', retries: 0 },
+      { kind: 'wait', line: 3, ms: 2000 },
+      {
+        kind: 'repeat',
+        line: 4,
+        count: 3,
+        body: [{ kind: 'command', line: 5, text: '向上滑动', retries: 0 }],
+      },
+      {
+        kind: 'if',
+        line: 7,
+        condition: { app: '微信', negate: true },
+        body: [{ kind: 'call', line: 8, name: '登录', retries: 2 }],
+        elseBody: [
+          { kind: 'command', line: 10, text: '点击 50%,80%', retries: 0 },
+        ],
+      },
+    ]);
+  });
+
+  test('reads wait units in any case', () => {
+    const waits = [
+      'wait 2S',
+      'wait 5 seconds',
+      '等待 3 秒钟',
+      'wait 300',
+      'WAIT 40 MS',
+    ];
+    expect(
+      parseScript(waits.join('\n')).map(node =>
+        node.kind === 'wait' ? node.ms : node.kind,
+      ),
+    ).toEqual([2000, 5000, 3000, 300, 40]);
+  });
+
+  test('reports unbalanced braces with line numbers', () => {
+    expect(() => parseScript('repeat 2 {\n点击 1,2')).toThrow(
+      new ScriptSyntaxError(1, '代码块缺少 }'),
+    );
+    expect(() => parseScript('点击 1,2\n}')).toThrow('第 2 行：多余的 }');
+    expect(() => parseScript('repeat 2 {\n} else {\n}')).toThrow(
+      'else 只能跟在 if 代码块之后',
+    );
+  });
+});
+
+describe('runScript', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('runs loops and conditions in order', async () => {
+    const options = createOptions();
+    const result = await runScript(
+      parseScript(
+        'repeat 2 {\n向上滑动\n}\nif app == 微信 {\n输入 你好\n} else {\n返回\n}',
+      ),
+      options,
+    );
+    expect(result.success).toBe(true);
+    expect(options.executed).toEqual(['向上滑动', '向上滑动', '输入 你好']);
+  });
+
+  test('retries failed lines and stops after retries are used up', async () => {
+    let attempts = 0;
+    const progress: string[] = [];
+    const options = createOptions({
+      executeCommand: async text => {
+        attempts += 1;
+        return { success: false, message: `failed: ${text}` };
+      },
+      onProgress: ({ line, status }) => progress.push(`${line}:${status}`),
+    });
+
+    const result = await runScript(
+      parseScript('点击 1,2 on failure retry 2\n点击 3,4'),
+      options,
+    );
+    expect(result).toEqual({ success: false, message: 'failed: 点击 1,2' });
+    expect(attempts).toBe(3);
+    expect(progress).toEqual([
+      '1:running',
+      '1:retrying',
+      '1:retrying',
+      '1:failed',
+    ]);
+  });
+
+  test('can be cancelled while waiting', async () => {
+    jest.useFakeTimers();
+    const controller = new AbortController();
+    const options = createOptions({ signal: controller.signal });
+    const running = runScript(parseScript('wait 60s\n点击 1,2'), options);
+    controller.abort();
+
+    expect(await running).toEqual({
+      success: false,
+      message: '已在第 1 行取消',
+    });
+    expect(options.executed).toEqual([]);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * @format
+ */
+
+import { parseCommand, parseIntent } from '../intentParser';
+import { answerSlot, startSlotDialog, type SlotDialog } from '../slotFilling';
+
+function dialogFor(command: string, locale: 'zh-CN' | 'en-US' = 'zh-CN') {
+  const dialog = startSlotDialog(
+    command,
+    parseCommand(command, locale),
+    locale,
+  );
+  expect(dialog).not.toBeNull();
+  return dialog as SlotDialog;
+}
+
+describe('startSlotDialog', () => {
+  test('asks only when the keyword has no argument at all', () => {
+    expect(parseIntent('打开')).toMatchObject({
+      type: 'Unknown',
+      slot: { prompt: '打开哪个应用？' },
+    });
+    expect(parseIntent('点击屏幕')).not.toHaveProperty('slot');
+    expect(
+      startSlotDialog('点击 100,200', parseCommand('点击 100,200'), 'zh-CN'),
+    ).toBeNull();
+  });
+
+  test('finds the incomplete step in a multi-step command', () => {
+    const dialog = dialogFor('打开微信然后输入');
+    expect(dialog.stepIndex).toBe(1);
+    expect(dialog.prompt).toBe('要输入什么？');
+  });
+});
+
+describe('answerSlot', () => {
+  test('merges the answer into the pending command', () => {
+    expect(answerSlot(dialogFor('打开微信然后输入'), '早上好。')).toMatchObject(
+      {
+        status: 'complete',
+        command: '打开微信然后输入 早上好',
+        intents: [
+          { type: 'OpenApp', target: '微信' },
+          { type: 'InputText', text: '早上好' },
+        ],
+      },
+    );
+    expect(answerSlot(dialogFor('滑动'), '向左一半')).toMatchObject({
+      status: 'complete',
+      intents: [{ type: 'Swipe' }],
+    });
+    expect(answerSlot(dialogFor('open', 'en-US'), 'WeChat')).toMatchObject({
+      status: 'complete',
+      intents: [{ type: 'OpenApp', target: 'WeChat' }],
+    });
+  });
+
+  test('treats other tap answers as button text', () => {
+    expect(answerSlot(dialogFor('点击'), '发送')).toMatchObject({
+      command: '点击 “发送”',
+      intents: [{ type: 'TapElement', query: { text: '发送' } }],
+    });
+  });
+
+  test('moves on to the next missing slot', () => {
+    const result = answerSlot(dialogFor('打开然后输入'), '微信');
+    expect(result).toMatchObject({
+      status: 'asking',
+      dialog: { stepIndex: 1, prompt: '要输入什么？' },
+    });
+  });
+
+  test('asks again with a hint when the answer does not fit', () => {
+    const dialog = dialogFor('滑动');
+    expect(answerSlot(dialog, '那边')).toEqual({
+      status: 'asking',
+      dialog,
+      hint: expect.stringContaining('无法识别滑动坐标'),
+    });
+  });
+
+  test('recognizes the cancel phrase', () => {
+    expect(answerSlot(dialogFor('打开'), '算了')).toEqual({
+      status: 'cancelled',
+    });
+  });
+});
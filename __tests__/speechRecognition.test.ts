@@ -0,0 +1,95 @@
+/**
+ * @format
+ */
+
+type SpeechRecognition = typeof import('../speechRecognition');
+
+type Listener = (payload: unknown) => void;
+
+/** 代替 NativeEventEmitter，记录监听器并由测试发出事件 */
+class FakeEmitter {
+  static instances: FakeEmitter[] = [];
+
+  listeners = new Map<string, Set<Listener>>();
+
+  constructor() {
+    FakeEmitter.instances.push(this);
+  }
+
+  addListener(eventName: string, listener: Listener) {
+    const listeners = this.listeners.get(eventName) ?? new Set<Listener>();
+    listeners.add(listener);
+    this.listeners.set(eventName, listeners);
+    return { remove: () => listeners.delete(listener) };
+  }
+
+  emit(eventName: string, payload: unknown = {}) {
+    this.listeners.get(eventName)?.forEach(listener => listener(payload));
+  }
+}
+
+/** 按指定平台重新加载模块，原生模块只在 Android 上存在 */
+function loadSpeechRecognition(os: 'android' | 'ios'): SpeechRecognition {
+  FakeEmitter.instances = [];
+  let loaded: SpeechRecognition | undefined;
+  jest.isolateModules(() => {
+    jest.doMock('react-native', () => ({
+      Platform: { OS: os },
+      NativeModules: {
+        SpeechRecognitionModule: {
+          addListener: jest.fn(),
+          removeListeners: jest.fn(),
+        },
+      },
+      NativeEventEmitter: FakeEmitter,
+    }));
+    loaded = require('../speechRecognition');
+  });
+  return loaded!;
+}
+
+afterEach(() => {
+  jest.dontMock('react-native');
+});
+
+describe('speech recognition events', () => {
+  test('ignores subscriptions without the native module', () => {
+    const speech = loadSpeechRecognition('ios');
+    const listener = jest.fn();
+    const unsubscribers = [
+      speech.onPartialResult(listener),
+      speech.onSpeechStart(listener),
+      speech.onSpeechEnd(listener),
+    ];
+
+    expect(FakeEmitter.instances).toHaveLength(0);
+    unsubscribers.forEach(unsubscribe => unsubscribe());
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test('unwraps partial results and stops after unsubscribing', () => {
+    const speech = loadSpeechRecognition('android');
+    const partial = jest.fn();
+    const start = jest.fn();
+    const end = jest.fn();
+    const unsubscribePartial = speech.onPartialResult(partial);
+    speech.onSpeechStart(start);
+    speech.onSpeechEnd(end);
+
+    // 所有订阅共用一个按需创建的发射器
+    expect(FakeEmitter.instances).toHaveLength(1);
+    const [emitter] = FakeEmitter.instances;
+    emitter.emit('SpeechRecognitionStart');
+    emitter.emit('SpeechRecognitionPartialResult', { text: '打开' });
+    emitter.emit('SpeechRecognitionPartialResult', { text: '打开微信' });
+    emitter.emit('SpeechRecognitionEnd');
+
+    expect(start).toHaveBeenCalledWith();
+    expect(partial.mock.calls).toEqual([['打开'], ['打开微信']]);
+    expect(end).toHaveBeenCalledWith();
+
+    unsubscribePartial();
+    emitter.emit('SpeechRecognitionPartialResult', { text: '打开微信然后' });
+    expect(partial).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * @format
+ */
+
+import {
+  getWindowHierarchy,
+  nativeBackend,
+  setAutomationBackend,
+  type WindowNode,
+} from '../automation';
+import { parseIntent } from '../intentParser';
+import { SimulatedDevice } from '../simulatedDevice';
+import {
+  commandForNode,
+  flattenHierarchy,
+  searchHierarchy,
+} from '../windowHierarchy';
+
+function node(
+  overrides: Partial<WindowNode>,
+  children: WindowNode[] = [],
+): WindowNode {
+  return {
+    className: 'android.view.View',
+    text: null,
+    contentDescription: null,
+    viewId: null,
+    packageName: 'com.tencent.mm',
+    bounds: { left: 0, top: 0, right: 100, bottom: 100 },
+    clickable: false,
+    editable: false,
+    scrollable: false,
+    visible: true,
+    children,
+    ...overrides,
+  };
+}
+
+const sendBottom = node({
+  text: '发送',
+  className: 'android.widget.Button',
+  bounds: { left: 0, top: 900, right: 200, bottom: 980 },
+  clickable: true,
+});
+const sendTop = node({
+  text: '发送',
+  bounds: { left: 0, top: 100, right: 200, bottom: 180 },
+});
+const input = node({
+  viewId: 'com.tencent.mm:id/input',
+  className: 'android.widget.EditText',
+  editable: true,
+});
+const icon = node({ bounds: { left: 10, top: 20, right: 30, bottom: 60 } });
+const root = node({ scrollable: true }, [
+  node({}, [sendBottom, input]),
+  sendTop,
+  icon,
+]);
+
+describe('window hierarchy', () => {
+  test('flattens in document order with depth and path', () => {
+    expect(
+      flattenHierarchy(root).map(({ depth, path }) => [depth, path]),
+    ).toEqual([
+      [0, '0'],
+      [1, '0.0'],
+      [2, '0.0.0'],
+      [2, '0.0.1'],
+      [1, '0.1'],
+      [1, '0.2'],
+    ]);
+  });
+
+  test('searches text, ids and class names', () => {
+    const flat = flattenHierarchy(root);
+    expect(searchHierarchy(flat, '发送').map(item => item.node)).toEqual([
+      sendBottom,
+      sendTop,
+    ]);
+    expect(searchHierarchy(flat, 'EDITTEXT').map(item => item.node)).toEqual([
+      input,
+    ]);
+    expect(searchHierarchy(flat, '  ')).toHaveLength(flat.length);
+  });
+
+  test('turns nodes into commands the grammar understands', () => {
+    const flat = flattenHierarchy(root);
+    expect(commandForNode(sendTop, flat, 'zh-CN')).toBe('点击 “发送”');
+    expect(commandForNode(sendBottom, flat, 'zh-CN')).toBe('点击 第2个“发送”');
+    expect(commandForNode(input, flat, 'zh-CN')).toBe('点击 id input');
+    expect(commandForNode(icon, flat, 'zh-CN')).toBe('点击 20,40');
+    expect(commandForNode(sendBottom, flat, 'en-US')).toBe(
+      'tap the second "发送"',
+    );
+
+    expect(
+      parseIntent(commandForNode(sendBottom, flat, 'zh-CN')),
+    ).toMatchObject({
+      type: 'TapElement',
+      query: { text: '发送' },
+      selector: { index: 1 },
+    });
+    expect(
+      parseIntent(commandForNode(input, flat, 'en-US'), 'en-US'),
+    ).toMatchObject({ type: 'TapElement', query: { id: 'input' } });
+  });
+
+  test('numbers duplicates among visible nodes only', () => {
+    const hidden = node({
+      text: '发送',
+      bounds: { left: 0, top: -400, right: 200, bottom: -320 },
+      visible: false,
+    });
+    const flat = flattenHierarchy(node({}, [hidden, sendTop, sendBottom]));
+    expect(commandForNode(sendTop, flat, 'zh-CN')).toBe('点击 “发送”');
+    expect(commandForNode(sendBottom, flat, 'zh-CN')).toBe('点击 第2个“发送”');
+  });
+
+  test('reads the tree from the active backend', async () => {
+    const device = new SimulatedDevice();
+    device.hierarchy = root;
+    setAutomationBackend(device);
+    try {
+      expect(await getWindowHierarchy()).toBe(root);
+      expect(device.callsOf('getWindowHierarchy')).toEqual([[]]);
+    } finally {
+      setAutomationBackend(nativeBackend);
+    }
+  });
+});
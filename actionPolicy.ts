@@ -0,0 +1,215 @@
+/**
+ * 执行策略
+ * 语音命令识别完成后会立即执行，识别错误可能在错误的应用里点击或粘贴。
+ * 这里按意图类型、识别置信度、目标应用和粘贴长度决定每条命令是
+ * 直接执行、需要确认还是拒绝执行
+ */
+
+import { resolveAppName } from './appResolver';
+import { parseCommand, type Intent } from './intentParser';
+import { DEFAULT_LOCALE, type Locale } from './locale';
+import { findMacro } from './macros';
+import { parseScript, type ScriptNode } from './scriptInterpreter';
+
+export type PolicyDecision = 'auto' | 'confirm' | 'refuse';
+
+export type PolicyConfig = {
+  /** 识别置信度低于该值时拒绝执行 */
+  refuseBelowConfidence: number;
+  /** 识别或匹配置信度低于该值时需要确认 */
+  confirmBelowConfidence: number;
+  /** 超过该长度的粘贴需要确认 */
+  maxAutoPasteLength: number;
+  /** 超过该长度的粘贴直接拒绝 */
+  maxPasteLength: number;
+  /** 在这些应用里点击、滑动、粘贴或执行系统操作需要确认 */
+  sensitivePackages: string[];
+  /** 禁止通过语音操作的应用 */
+  blockedPackages: string[];
+};
+
+export const DEFAULT_POLICY: PolicyConfig = {
+  refuseBelowConfidence: 0.3,
+  confirmBelowConfidence: 0.7,
+  maxAutoPasteLength: 50,
+  maxPasteLength: 2000,
+  sensitivePackages: ['com.eg.android.AlipayGphone', 'com.android.settings'],
+  blockedPackages: [],
+};
+
+export type PolicyContext = {
+  /**
+   * 语音识别置信度，手动输入时为空
+   * 引擎未提供置信度（0 或以下）时不参与判断
+   */
+  recognitionConfidence?: number;
+  /** 命令匹配置信度，纠正过关键字时小于 1 */
+  matchConfidence: number;
+  /** 执行前的前台应用包名 */
+  foregroundPackage: string | null;
+  /** 解析宏中命令使用的语言 */
+  locale?: Locale;
+  /** 命令由大模型解析，会操作界面的步骤一律需要确认 */
+  fromLlm?: boolean;
+};
+
+export type PolicyVerdict = {
+  decision: PolicyDecision;
+  /** 需要确认或拒绝的原因 */
+  reasons: string[];
+};
+
+const SEVERITY: Record<PolicyDecision, number> = {
+  auto: 0,
+  confirm: 1,
+  refuse: 2,
+};
+
+/**
+ * 展开宏中的命令，条件分支和循环体都计入，调用的其他宏一并展开
+ * 找不到或脚本有误的宏不会执行任何步骤，返回空列表
+ */
+function macroIntents(
+  name: string,
+  locale: Locale,
+  seen: Set<string> = new Set(),
+): Intent[] {
+  const macro = findMacro(name);
+  if (!macro || seen.has(macro.id)) {
+    return [];
+  }
+  seen.add(macro.id);
+  let program: ScriptNode[];
+  try {
+    program = parseScript(macro.steps.join('\n'));
+  } catch {
+    return [];
+  }
+  const collect = (nodes: ScriptNode[]): Intent[] =>
+    nodes.flatMap(node => {
+      switch (node.kind) {
+        case 'command':
+          return parseCommand(node.text, locale);
+        case 'call':
+          return macroIntents(node.name, locale, seen);
+        case 'repeat':
+          return collect(node.body);
+        case 'if':
+          return [...collect(node.body), ...collect(node.elseBody)];
+        default:
+          return [];
+      }
+    });
+  return collect(program);
+}
+
+/**
+ * 评估一条（可能包含多个步骤的）命令，取所有步骤中最严格的决定
+ * 执行宏时按宏中的命令逐条评估
+ */
+export function evaluateCommand(
+  intents: Intent[],
+  context: PolicyContext,
+  config: PolicyConfig = DEFAULT_POLICY,
+): PolicyVerdict {
+  let decision: PolicyDecision = 'auto';
+  const reasons: string[] = [];
+  const flag = (next: PolicyDecision, reason: string) => {
+    if (SEVERITY[next] > SEVERITY[decision]) {
+      decision = next;
+    }
+    reasons.push(reason);
+  };
+
+  const { recognitionConfidence, matchConfidence } = context;
+  if (recognitionConfidence !== undefined && recognitionConfidence > 0) {
+    const percent = Math.round(recognitionConfidence * 100);
+    if (recognitionConfidence < config.refuseBelowConfidence) {
+      flag('refuse', `识别置信度过低（${percent}%）`);
+    } else if (recognitionConfidence < config.confirmBelowConfidence) {
+      flag('confirm', `识别置信度较低（${percent}%）`);
+    }
+  }
+  // 完全没有识别出的命令不会执行任何操作，不算纠正
+  if (
+    matchConfidence < 1 &&
+    intents.some(intent => intent.type !== 'Unknown')
+  ) {
+    flag(
+      'confirm',
+      `命令经过纠正（置信度 ${Math.round(matchConfidence * 100)}%）`,
+    );
+  }
+
+  // 打开应用之后的步骤作用于新打开的应用
+  let targetPackage = context.foregroundPackage;
+  const steps = intents.flatMap(intent =>
+    intent.type === 'RunMacro'
+      ? macroIntents(intent.name, context.locale ?? DEFAULT_LOCALE)
+      : [intent],
+  );
+  for (const intent of steps) {
+    switch (intent.type) {
+      case 'OpenApp': {
+        const match = resolveAppName(intent.target);
+        if (match && config.blockedPackages.includes(match.packageName)) {
+          flag('refuse', `禁止通过语音打开 ${match.name}`);
+        }
+        targetPackage = match?.packageName ?? targetPackage;
+        continue;
+      }
+      case 'InputText':
+        if (intent.text.length > config.maxPasteLength) {
+          flag('refuse', `粘贴内容过长（${intent.text.length} 字）`);
+        } else if (intent.text.length > config.maxAutoPasteLength) {
+          flag('confirm', `将粘贴 ${intent.text.length} 字`);
+        }
+        break;
+      case 'Tap':
+      case 'TapElement':
+      case 'LongPress':
+      case 'DoubleTap':
+      case 'Pinch':
+      case 'GesturePath':
+      case 'Swipe':
+      case 'GlobalAction':
+        break;
+      default:
+        continue;
+    }
+    if (context.fromLlm) {
+      flag('confirm', '命令由大模型解析，请核对步骤');
+    }
+    if (targetPackage && config.blockedPackages.includes(targetPackage)) {
+      flag('refuse', `禁止在 ${targetPackage} 中操作`);
+    } else if (
+      targetPackage &&
+      config.sensitivePackages.includes(targetPackage)
+    ) {
+      flag('confirm', `将在敏感应用 ${targetPackage} 中操作`);
+    }
+  }
+
+  return { decision, reasons: [...new Set(reasons)] };
+}
+
+const CONFIRM_REPLY =
+  /^(?:确认|确定|是的|执行吧?|好的?|confirm|yes|ok(?:ay)?)$/i;
+const CANCEL_REPLY = /^(?:取消|不要|算了|不用了?|cancel|no)$/i;
+
+/**
+ * 识别对确认提示的语音回复
+ * @returns 不是确认或取消时返回 null
+ */
+export function parseConfirmationReply(
+  text: string,
+): 'confirm' | 'cancel' | null {
+  const reply = text.trim().replace(/[\s。！!.,，]+$/, '');
+  if (CONFIRM_REPLY.test(reply)) {
+    return 'confirm';
+  }
+  if (CANCEL_REPLY.test(reply)) {
+    return 'cancel';
+  }
+  return null;
+}
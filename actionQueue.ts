@@ -0,0 +1,200 @@
+/**
+ * 动作队列
+ * 自动化操作逐个执行，避免两条命令同时操作屏幕
+ * 等待中的动作按优先级排序，可以单个取消，也可以连同正在执行的动作全部停止
+ */
+
+import { AutomationError } from './automation';
+
+export type ActionPriority = 'high' | 'normal' | 'low';
+
+export type QueuedAction = {
+  id: number;
+  /** 显示在等待列表中的文字，通常是命令原文 */
+  label: string;
+  priority: ActionPriority;
+};
+
+export type ActionQueueState = {
+  running: QueuedAction | null;
+  /** 按执行顺序排列 */
+  pending: QueuedAction[];
+};
+
+/** 队列中的动作，停止时 signal 会被触发，动作需要自行响应 */
+export type ActionTask<T> = (signal: AbortSignal) => Promise<T>;
+
+export type EnqueueOptions = {
+  priority?: ActionPriority;
+};
+
+const PRIORITY_RANK: Record<ActionPriority, number> = {
+  high: 0,
+  normal: 1,
+  low: 2,
+};
+
+type Entry = QueuedAction & {
+  run: (signal: AbortSignal) => Promise<void>;
+  reject: (error: Error) => void;
+};
+
+function cancelledError(action: QueuedAction): AutomationError {
+  return new AutomationError('CANCELLED', `已取消: ${action.label}`);
+}
+
+function describe({ id, label, priority }: QueuedAction): QueuedAction {
+  return { id, label, priority };
+}
+
+export class ActionQueue {
+  private nextId = 1;
+
+  private pending: Entry[] = [];
+
+  private running: {
+    action: QueuedAction;
+    controller: AbortController;
+  } | null = null;
+
+  private listeners = new Set<(state: ActionQueueState) => void>();
+
+  /**
+   * 加入队列，轮到时执行
+   * @returns 动作的结果；执行前被取消时以 CANCELLED 拒绝
+   */
+  enqueue<T>(
+    label: string,
+    task: ActionTask<T>,
+    { priority = 'normal' }: EnqueueOptions = {},
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.insert({
+        id: this.nextId++,
+        label,
+        priority,
+        run: async signal => {
+          try {
+            resolve(await task(signal));
+          } catch (error) {
+            reject(error);
+          }
+        },
+        reject,
+      });
+      this.notify();
+      this.drain();
+    });
+  }
+
+  getState(): ActionQueueState {
+    return {
+      running: this.running ? describe(this.running.action) : null,
+      pending: this.pending.map(describe),
+    };
+  }
+
+  /**
+   * 订阅队列变化，订阅时立即收到一次当前状态
+   * @returns 取消订阅的函数
+   */
+  subscribe(listener: (state: ActionQueueState) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.getState());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 把等待中的动作提为高优先级，排在其他高优先级动作之后
+   */
+  prioritize(id: number): boolean {
+    const entry = this.remove(id);
+    if (!entry) {
+      return false;
+    }
+    this.insert({ ...entry, priority: 'high' });
+    this.notify();
+    return true;
+  }
+
+  /**
+   * 取消一个等待中的动作，正在执行的动作需要用 cancelAll 停止
+   */
+  cancel(id: number): boolean {
+    const entry = this.remove(id);
+    if (!entry) {
+      return false;
+    }
+    entry.reject(cancelledError(entry));
+    this.notify();
+    return true;
+  }
+
+  /**
+   * 停止正在执行的动作，并取消所有等待中的动作
+   * @returns 受影响的动作数
+   */
+  cancelAll(): number {
+    const cancelled = this.pending;
+    this.pending = [];
+    cancelled.forEach(entry => entry.reject(cancelledError(entry)));
+    const running = this.running;
+    running?.controller.abort();
+    this.notify();
+    return cancelled.length + (running ? 1 : 0);
+  }
+
+  /** 同一优先级按加入的先后排列 */
+  private insert(entry: Entry) {
+    const index = this.pending.findIndex(
+      other => PRIORITY_RANK[other.priority] > PRIORITY_RANK[entry.priority],
+    );
+    if (index < 0) {
+      this.pending.push(entry);
+    } else {
+      this.pending.splice(index, 0, entry);
+    }
+  }
+
+  private remove(id: number): Entry | null {
+    const index = this.pending.findIndex(entry => entry.id === id);
+    return index < 0 ? null : this.pending.splice(index, 1)[0];
+  }
+
+  private async drain() {
+    if (this.running) {
+      return;
+    }
+    const entry = this.pending.shift();
+    if (!entry) {
+      return;
+    }
+    const controller = new AbortController();
+    this.running = { action: describe(entry), controller };
+    this.notify();
+    try {
+      await entry.run(controller.signal);
+    } finally {
+      this.running = null;
+      this.notify();
+      this.drain();
+    }
+  }
+
+  private notify() {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+const STOP_COMMAND =
+  /^(?:停止|停下|停止执行|取消全部|全部取消|stop|stop all|cancel all)$/i;
+
+/**
+ * 识别停止全部动作的语音命令
+ */
+export function isStopCommand(text: string): boolean {
+  return STOP_COMMAND.test(text.trim().replace(/[\s。！!.,，]+$/, ''));
+}
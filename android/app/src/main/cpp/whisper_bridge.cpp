@@ -53,12 +53,20 @@ Java_com_xaiapp_whisper_WhisperModule_nativeInitializeModel(JNIEnv *env, jobject
 }
 
 JNIEXPORT jstring JNICALL
-Java_com_xaiapp_whisper_WhisperModule_nativeTranscribe(JNIEnv *env, jobject thiz, jfloatArray audio_data) {
+Java_com_xaiapp_whisper_WhisperModule_nativeTranscribe(JNIEnv *env, jobject thiz, jfloatArray audio_data,
+                                                       jstring language) {
     if (!g_whisperState.initialized) {
         LOGE("Whisper model not initialized");
         return env->NewStringUTF("");
     }
 
+    // 识别语言（whisper_full_params.language），例如 "zh"、"en"
+    const char *lang = env->GetStringUTFChars(language, nullptr);
+    std::string languageCode = lang ? lang : "zh";
+    if (lang) {
+        env->ReleaseStringUTFChars(language, lang);
+    }
+
     jsize len = env->GetArrayLength(audio_data);
     if (len == 0) {
         LOGE("Empty audio data");
@@ -71,7 +79,8 @@ Java_com_xaiapp_whisper_WhisperModule_nativeTranscribe(JNIEnv *env, jobject thiz
         return env->NewStringUTF("");
     }
 
-    LOGI("Transcribing %d audio samples (%.2f seconds)...", len, len / 16000.0f);
+    LOGI("Transcribing %d audio samples (%.2f seconds, language: %s)...", len, len / 16000.0f,
+         languageCode.c_str());
 
     // 计算音频能量（简单的音量检测）
     float sum = 0.0f;
@@ -92,8 +101,8 @@ Java_com_xaiapp_whisper_WhisperModule_nativeTranscribe(JNIEnv *env, jobject thiz
     } else {
         // 模拟转写结果（实际应该调用 whisper.cpp）
         // 这里返回一个成功的占位符结果，表示调用成功
-        result = "Whisper 转写调用成功（模型: ggml-tiny-q5.bin，音频长度: " +
-                 std::to_string((int)(len / 16000.0f)) + "秒）";
+        result = "Whisper 转写调用成功（模型: ggml-tiny-q5.bin，语言: " + languageCode +
+                 "，音频长度: " + std::to_string((int)(len / 16000.0f)) + "秒）";
     }
 
     LOGI("Transcription result: %s", result.c_str());
@@ -8,6 +8,7 @@ import com.facebook.react.ReactNativeApplicationEntryPoint.loadReactNative
 import com.facebook.react.defaults.DefaultReactHost.getDefaultReactHost
 import com.xaiapp.automation.AutomationPackage
 import com.xaiapp.speech.SpeechRecognitionPackage
+import com.xaiapp.storage.KeyValueStorePackage
 import com.xaiapp.whisper.WhisperPackage
 
 class MainApplication : Application(), ReactApplication {
@@ -22,6 +23,7 @@ class MainApplication : Application(), ReactApplication {
           add(AutomationPackage())
           add(SpeechRecognitionPackage())
           add(WhisperPackage())
+          add(KeyValueStorePackage())
         },
     )
   }
@@ -1,17 +1,85 @@
 package com.xaiapp.automation
 
 import android.content.Intent
+import android.content.pm.ApplicationInfo
+import android.content.pm.PackageManager
+import android.graphics.Bitmap
+import android.graphics.Canvas
+import android.graphics.PointF
+import android.net.Uri
+import android.os.Build
 import android.provider.Settings
+import com.facebook.react.bridge.Arguments
 import com.facebook.react.bridge.Promise
 import com.facebook.react.bridge.ReactApplicationContext
 import com.facebook.react.bridge.ReactContextBaseJavaModule
 import com.facebook.react.bridge.ReactMethod
+import com.facebook.react.bridge.ReadableArray
+import com.facebook.react.bridge.ReadableMap
+import com.facebook.react.bridge.WritableMap
+import com.facebook.react.modules.core.DeviceEventManagerModule
+import java.io.File
+import java.text.Collator
+import java.util.concurrent.Executors
 
 class AutomationModule(private val appContext: ReactApplicationContext) :
     ReactContextBaseJavaModule(appContext) {
 
   override fun getName(): String = "AutomationModule"
 
+  /** JS listener count, maintained by NativeEventEmitter. */
+  private var listenerCount = 0
+
+  /** Package queries and icon rendering are too slow for the bridge thread. */
+  private val ioExecutor = Executors.newSingleThreadExecutor()
+
+  private val eventSink =
+      object : AutomationService.EventSink {
+        override fun onForegroundAppChanged(packageName: String, className: String?) {
+          emit(
+              FOREGROUND_APP_CHANGED,
+              Arguments.createMap().apply {
+                putString("packageName", packageName)
+                putString("className", className)
+              })
+        }
+
+        override fun onWindowContentChanged(packageName: String?) {
+          emit(
+              WINDOW_CONTENT_CHANGED,
+              Arguments.createMap().apply { putString("packageName", packageName) })
+        }
+      }
+
+  private fun emit(eventName: String, params: WritableMap) {
+    if (appContext.hasActiveReactInstance()) {
+      appContext
+          .getJSModule(DeviceEventManagerModule.RCTDeviceEventEmitter::class.java)
+          .emit(eventName, params)
+    }
+  }
+
+  /** Events are only forwarded while at least one JS listener is registered. */
+  @ReactMethod
+  fun addListener(eventName: String) {
+    listenerCount += 1
+    AutomationService.eventSink = eventSink
+  }
+
+  @ReactMethod
+  fun removeListeners(count: Int) {
+    listenerCount = (listenerCount - count).coerceAtLeast(0)
+    if (listenerCount == 0) {
+      AutomationService.eventSink = null
+    }
+  }
+
+  override fun invalidate() {
+    AutomationService.eventSink = null
+    ioExecutor.shutdown()
+    super.invalidate()
+  }
+
   @ReactMethod
   fun isAccessibilityServiceRunning(promise: Promise) {
     promise.resolve(AutomationService.isRunning())
@@ -25,9 +93,9 @@ class AutomationModule(private val appContext: ReactApplicationContext) :
             flags = Intent.FLAG_ACTIVITY_NEW_TASK
           }
       appContext.startActivity(intent)
-      promise.resolve(true)
+      promise.resolve(null)
     } catch (e: Exception) {
-      promise.reject("OPEN_SETTINGS_FAILED", e)
+      promise.reject("ACTION_FAILED", e)
     }
   }
 
@@ -36,23 +104,77 @@ class AutomationModule(private val appContext: ReactApplicationContext) :
     try {
       val launchIntent = appContext.packageManager.getLaunchIntentForPackage(packageName)
       if (launchIntent == null) {
-        promise.resolve(false)
+        promise.reject("APP_NOT_INSTALLED", "No launchable activity for $packageName")
         return
       }
       launchIntent.addFlags(Intent.FLAG_ACTIVITY_NEW_TASK)
       appContext.startActivity(launchIntent)
-      promise.resolve(true)
+      promise.resolve(null)
     } catch (e: Exception) {
-      promise.reject("OPEN_APP_FAILED", e)
+      promise.reject("ACTION_FAILED", e)
     }
   }
 
+  /**
+   * Lists apps visible to this package (launcher apps, per the manifest's
+   * <queries>), sorted by label. Does not need the accessibility service.
+   */
+  @ReactMethod
+  fun listInstalledApps(promise: Promise) {
+    ioExecutor.execute {
+      try {
+        val pm = appContext.packageManager
+        val iconDir = File(appContext.cacheDir, "app-icons").apply { mkdirs() }
+        val apps =
+            if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.TIRAMISU) {
+              pm.getInstalledApplications(PackageManager.ApplicationInfoFlags.of(0))
+            } else {
+              @Suppress("DEPRECATION") pm.getInstalledApplications(0)
+            }
+        val collator = Collator.getInstance()
+        val result = Arguments.createArray()
+        apps
+            .map { it to pm.getApplicationLabel(it).toString() }
+            .sortedWith(compareBy(collator) { it.second })
+            .forEach { (info, label) ->
+              result.pushMap(
+                  Arguments.createMap().apply {
+                    putString("packageName", info.packageName)
+                    putString("label", label)
+                    putString("iconUri", iconUri(pm, info, iconDir))
+                    putBoolean(
+                        "launchable", pm.getLaunchIntentForPackage(info.packageName) != null)
+                  })
+            }
+        promise.resolve(result)
+      } catch (e: Exception) {
+        promise.reject("ACTION_FAILED", e)
+      }
+    }
+  }
+
+  /** Renders the icon to a PNG once per install or update of the app. */
+  private fun iconUri(pm: PackageManager, info: ApplicationInfo, dir: File): String? =
+      try {
+        val file = File(dir, "${info.packageName}.png")
+        if (!file.exists() || file.lastModified() < File(info.sourceDir).lastModified()) {
+          val bitmap = Bitmap.createBitmap(ICON_SIZE_PX, ICON_SIZE_PX, Bitmap.Config.ARGB_8888)
+          info.loadIcon(pm).apply {
+            setBounds(0, 0, ICON_SIZE_PX, ICON_SIZE_PX)
+            draw(Canvas(bitmap))
+          }
+          file.outputStream().use { bitmap.compress(Bitmap.CompressFormat.PNG, 100, it) }
+          bitmap.recycle()
+        }
+        Uri.fromFile(file).toString()
+      } catch (e: Exception) {
+        null
+      }
+
   @ReactMethod
   fun tap(x: Double, y: Double, durationMs: Double, promise: Promise) {
     val started =
-        AutomationService.tap(x.toFloat(), y.toFloat(), durationMs.toLong()) { success ->
-          promise.resolve(success)
-        }
+        AutomationService.tap(x.toFloat(), y.toFloat(), durationMs.toLong(), settle(promise))
 
     if (!started) {
       promise.reject(
@@ -75,9 +197,31 @@ class AutomationModule(private val appContext: ReactApplicationContext) :
             startY.toFloat(),
             endX.toFloat(),
             endY.toFloat(),
-            durationMs.toLong()) { success ->
-              promise.resolve(success)
-            }
+            durationMs.toLong(),
+            settle(promise),
+        )
+
+    if (!started) {
+      promise.reject(
+          "SERVICE_NOT_RUNNING", "Accessibility service is not enabled, open settings to allow it.")
+    }
+  }
+
+  @ReactMethod
+  fun dispatchGesture(strokes: ReadableArray, promise: Promise) {
+    val specs = (0 until strokes.size()).mapNotNull { strokes.getMap(it)?.let(::toStroke) }
+    if (specs.isEmpty() || specs.size != strokes.size()) {
+      promise.reject("INVALID_ARGUMENT", "Every stroke needs at least one point.")
+      return
+    }
+
+    val started =
+        try {
+          AutomationService.gesture(specs, settle(promise))
+        } catch (e: RuntimeException) {
+          promise.reject("INVALID_ARGUMENT", e)
+          return
+        }
 
     if (!started) {
       promise.reject(
@@ -87,7 +231,143 @@ class AutomationModule(private val appContext: ReactApplicationContext) :
 
   @ReactMethod
   fun pasteText(text: String, promise: Promise) {
-    val started = AutomationService.pasteText(text) { success -> promise.resolve(success) }
+    val started = AutomationService.pasteText(text, settle(promise))
+
+    if (!started) {
+      promise.reject(
+          "SERVICE_NOT_RUNNING",
+          "Accessibility service is not enabled, open settings to allow it.",
+      )
+    }
+  }
+
+  @ReactMethod
+  fun setText(text: String, target: ReadableMap?, index: Double, mode: String, promise: Promise) {
+    val started =
+        AutomationService.setText(
+            text,
+            target?.optString("text"),
+            target?.optString("id"),
+            target?.optBoolean("exact") ?: false,
+            index.toInt(),
+            mode == "append") { outcome ->
+              val error = outcome.error
+              if (error == null) promise.resolve(outcome.method)
+              else promise.reject(error, errorMessage(error))
+            }
+
+    if (!started) {
+      promise.reject(
+          "SERVICE_NOT_RUNNING",
+          "Accessibility service is not enabled, open settings to allow it.",
+      )
+    }
+  }
+
+  @ReactMethod
+  fun getForegroundApp(promise: Promise) {
+    if (!AutomationService.isRunning()) {
+      promise.reject(
+          "SERVICE_NOT_RUNNING",
+          "Accessibility service is not enabled, open settings to allow it.",
+      )
+      return
+    }
+    promise.resolve(AutomationService.foregroundPackage())
+  }
+
+  @ReactMethod
+  fun findNodes(query: ReadableMap, promise: Promise) {
+    val started =
+        AutomationService.findNodes(
+            query.optString("text"), query.optString("id"), query.optBoolean("exact")) { nodes ->
+              val result = Arguments.createArray()
+              nodes.forEach { node ->
+                result.pushMap(
+                    Arguments.createMap().apply {
+                      putInt("index", node.index)
+                      putString("text", node.text)
+                      putString("contentDescription", node.contentDescription)
+                      putString("viewId", node.viewId)
+                      putString("className", node.className)
+                      putMap(
+                          "bounds",
+                          Arguments.createMap().apply {
+                            putInt("left", node.bounds.left)
+                            putInt("top", node.bounds.top)
+                            putInt("right", node.bounds.right)
+                            putInt("bottom", node.bounds.bottom)
+                          })
+                      putBoolean("clickable", node.clickable)
+                      putBoolean("editable", node.editable)
+                    })
+              }
+              promise.resolve(result)
+            }
+
+    if (!started) {
+      promise.reject(
+          "SERVICE_NOT_RUNNING",
+          "Accessibility service is not enabled, open settings to allow it.",
+      )
+    }
+  }
+
+  @ReactMethod
+  fun clickNode(query: ReadableMap, index: Double, promise: Promise) {
+    val started =
+        AutomationService.clickNode(
+            query.optString("text"),
+            query.optString("id"),
+            query.optBoolean("exact"),
+            index.toInt(),
+            settle(promise),
+        )
+
+    if (!started) {
+      promise.reject(
+          "SERVICE_NOT_RUNNING",
+          "Accessibility service is not enabled, open settings to allow it.",
+      )
+    }
+  }
+
+  @ReactMethod
+  fun getWindowHierarchy(promise: Promise) {
+    val started =
+        AutomationService.windowHierarchy { root -> promise.resolve(root?.let { toMap(it) }) }
+
+    if (!started) {
+      promise.reject(
+          "SERVICE_NOT_RUNNING",
+          "Accessibility service is not enabled, open settings to allow it.",
+      )
+    }
+  }
+
+  @ReactMethod
+  fun captureScreenshot(promise: Promise) {
+    val started =
+        AutomationService.screenshot { outcome ->
+          val error = outcome.error
+          if (error == null) promise.resolve(outcome.uri)
+          else promise.reject(error, errorMessage(error))
+        }
+
+    if (!started) {
+      promise.reject(
+          "SERVICE_NOT_RUNNING",
+          "Accessibility service is not enabled, open settings to allow it.",
+      )
+    }
+  }
+
+  @ReactMethod
+  fun waitForWindowChange(timeoutMs: Double, promise: Promise) {
+    val started =
+        AutomationService.waitForWindowChange(timeoutMs.toLong()) { changed ->
+          promise.resolve(changed)
+        }
 
     if (!started) {
       promise.reject(
@@ -96,4 +376,91 @@ class AutomationModule(private val appContext: ReactApplicationContext) :
       )
     }
   }
+
+  @ReactMethod
+  fun performGlobalAction(action: String, promise: Promise) {
+    val code = AutomationService.globalActionCode(action)
+    if (code == null) {
+      promise.reject("INVALID_ARGUMENT", "Unknown global action: $action")
+      return
+    }
+
+    val started = AutomationService.globalAction(code, settle(promise))
+
+    if (!started) {
+      promise.reject(
+          "SERVICE_NOT_RUNNING",
+          "Accessibility service is not enabled, open settings to allow it.",
+      )
+    }
+  }
+
+  /** Resolves on success, otherwise rejects with the service's error code. */
+  private fun settle(promise: Promise): ErrorCallback = { error ->
+    if (error == null) promise.resolve(null) else promise.reject(error, errorMessage(error))
+  }
+
+  private fun errorMessage(code: String): String = ERROR_MESSAGES[code] ?: code
+
+  private fun toStroke(map: ReadableMap): AutomationService.StrokeSpec? {
+    val points = map.getArray("points") ?: return null
+    val path =
+        (0 until points.size()).mapNotNull { index ->
+          points.getMap(index)?.let {
+            PointF(it.getDouble("x").toFloat(), it.getDouble("y").toFloat())
+          }
+        }
+    if (path.isEmpty()) return null
+    return AutomationService.StrokeSpec(
+        path, map.getDouble("startMs").toLong(), map.getDouble("durationMs").toLong())
+  }
+
+  private fun toMap(node: AutomationService.WindowNodeSnapshot): WritableMap =
+      Arguments.createMap().apply {
+        putString("className", node.className)
+        putString("text", node.text)
+        putString("contentDescription", node.contentDescription)
+        putString("viewId", node.viewId)
+        putString("packageName", node.packageName)
+        putMap(
+            "bounds",
+            Arguments.createMap().apply {
+              putInt("left", node.bounds.left)
+              putInt("top", node.bounds.top)
+              putInt("right", node.bounds.right)
+              putInt("bottom", node.bounds.bottom)
+            })
+        putBoolean("clickable", node.clickable)
+        putBoolean("editable", node.editable)
+        putBoolean("scrollable", node.scrollable)
+        putBoolean("visible", node.visible)
+        putArray(
+            "children",
+            Arguments.createArray().apply { node.children.forEach { pushMap(toMap(it)) } })
+      }
+
+  private fun ReadableMap.optString(key: String): String? =
+      if (hasKey(key) && !isNull(key)) getString(key) else null
+
+  private fun ReadableMap.optBoolean(key: String): Boolean =
+      hasKey(key) && !isNull(key) && getBoolean(key)
+
+  companion object {
+    private const val FOREGROUND_APP_CHANGED = "AutomationForegroundAppChanged"
+    private const val WINDOW_CONTENT_CHANGED = "AutomationWindowContentChanged"
+    private const val ICON_SIZE_PX = 96
+
+    private val ERROR_MESSAGES =
+        mapOf(
+            "NODE_NOT_FOUND" to "No matching element on screen.",
+            "NO_FOCUSED_FIELD" to "No input field has focus.",
+            "NOT_EDITABLE" to "The target element is not editable.",
+            "PASTE_REJECTED" to "The field rejected both set-text and paste.",
+            "OUT_OF_BOUNDS" to "The gesture leaves the screen.",
+            "GESTURE_CANCELLED" to "The gesture was interrupted.",
+            "GESTURE_REJECTED" to "The system refused to dispatch the gesture.",
+            "UNSUPPORTED" to "This action needs a newer Android version.",
+            "ACTION_FAILED" to "The accessibility action was not performed.",
+        )
+  }
 }
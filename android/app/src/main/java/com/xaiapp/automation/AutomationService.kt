@@ -5,13 +5,29 @@ import android.accessibilityservice.GestureDescription
 import android.content.ClipData
 import android.content.ClipboardManager
 import android.content.Context
+import android.graphics.Bitmap
 import android.graphics.Path
+import android.graphics.PointF
+import android.graphics.Rect
+import android.net.Uri
+import android.os.Build
 import android.os.Bundle
 import android.os.Handler
 import android.os.Looper
+import android.util.DisplayMetrics
 import android.util.Log
+import android.view.Display
+import android.view.WindowManager
 import android.view.accessibility.AccessibilityEvent
 import android.view.accessibility.AccessibilityNodeInfo
+import java.io.File
+import java.util.concurrent.Executors
+
+/**
+ * Completion of an automation action: null on success, otherwise one of the
+ * error codes shared with JS (AutomationErrorCode in automation.ts).
+ */
+typealias ErrorCallback = (String?) -> Unit
 
 /**
  * Minimal accessibility service used to perform gestures and paste text
@@ -20,6 +36,12 @@ import android.view.accessibility.AccessibilityNodeInfo
 class AutomationService : AccessibilityService() {
   private val mainHandler = Handler(Looper.getMainLooper())
 
+  /** Encodes screenshots off the main thread. */
+  private val diskExecutor = Executors.newSingleThreadExecutor()
+
+  /** Pending waitForWindowChange callbacks; only touched on the main thread. */
+  private val windowChangeListeners = mutableListOf<(Boolean) -> Unit>()
+
   override fun onServiceConnected() {
     super.onServiceConnected()
     instance = this
@@ -28,12 +50,51 @@ class AutomationService : AccessibilityService() {
 
   override fun onDestroy() {
     super.onDestroy()
+    diskExecutor.shutdown()
     instance = null
     Log.d(TAG, "AutomationService destroyed")
   }
 
   override fun onAccessibilityEvent(event: AccessibilityEvent?) {
-    // Not used: we only dispatch gestures on demand from JS.
+    val eventPackage = event?.packageName?.toString()
+    if (event?.eventType == AccessibilityEvent.TYPE_WINDOW_STATE_CHANGED && eventPackage != null) {
+      if (eventPackage != lastWindowPackage) {
+        eventSink?.onForegroundAppChanged(eventPackage, event.className?.toString())
+      }
+      lastWindowPackage = eventPackage
+    }
+    // Our own status updates would otherwise keep the screen from ever looking idle
+    if (event != null && eventPackage != packageName) {
+      notifyWindowChanged()
+      if (event.eventType == AccessibilityEvent.TYPE_WINDOW_CONTENT_CHANGED) {
+        eventSink?.onWindowContentChanged(eventPackage)
+      }
+    }
+  }
+
+  private fun notifyWindowChanged() {
+    if (windowChangeListeners.isEmpty()) return
+    val listeners = windowChangeListeners.toList()
+    windowChangeListeners.clear()
+    listeners.forEach { it(true) }
+  }
+
+  private fun awaitWindowChange(timeoutMs: Long, callback: (Boolean) -> Unit) {
+    mainHandler.post {
+      var settled = false
+      lateinit var listener: (Boolean) -> Unit
+      val timeout = Runnable { listener(false) }
+      listener = { changed ->
+        if (!settled) {
+          settled = true
+          mainHandler.removeCallbacks(timeout)
+          windowChangeListeners.remove(listener)
+          callback(changed)
+        }
+      }
+      windowChangeListeners.add(listener)
+      mainHandler.postDelayed(timeout, timeoutMs.coerceAtLeast(0L))
+    }
   }
 
   override fun onInterrupt() {
@@ -42,7 +103,7 @@ class AutomationService : AccessibilityService() {
 
   private fun dispatchGestureWithCallback(
       gesture: GestureDescription,
-      callback: (Boolean) -> Unit
+      callback: ErrorCallback,
   ) {
     mainHandler.post {
       val accepted =
@@ -51,23 +112,55 @@ class AutomationService : AccessibilityService() {
               object : GestureResultCallback() {
                 override fun onCompleted(gestureDescription: GestureDescription?) {
                   super.onCompleted(gestureDescription)
-                  callback(true)
+                  callback(null)
                 }
 
                 override fun onCancelled(gestureDescription: GestureDescription?) {
                   super.onCancelled(gestureDescription)
-                  callback(false)
+                  callback("GESTURE_CANCELLED")
                 }
               },
               null,
           )
 
       if (!accepted) {
-        callback(false)
+        callback("GESTURE_REJECTED")
       }
     }
   }
 
+  /**
+   * The system silently drops strokes that leave the physical display, so
+   * points are checked against the real size (including system bars).
+   */
+  private fun isOnScreen(points: List<PointF>): Boolean {
+    val (width, height) =
+        if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.R) {
+          val bounds = getSystemService(WindowManager::class.java).maximumWindowMetrics.bounds
+          bounds.width() to bounds.height()
+        } else {
+          val metrics = DisplayMetrics()
+          @Suppress("DEPRECATION")
+          (getSystemService(Context.WINDOW_SERVICE) as WindowManager)
+              .defaultDisplay
+              .getRealMetrics(metrics)
+          metrics.widthPixels to metrics.heightPixels
+        }
+    return points.all { it.x >= 0f && it.y >= 0f && it.x < width && it.y < height }
+  }
+
+  private fun dispatchOnScreen(
+      points: List<PointF>,
+      gesture: () -> GestureDescription,
+      callback: ErrorCallback,
+  ) {
+    if (!isOnScreen(points)) {
+      callback("OUT_OF_BOUNDS")
+      return
+    }
+    dispatchGestureWithCallback(gesture(), callback)
+  }
+
   private fun buildGesture(path: Path, durationMs: Long): GestureDescription {
     val safeDuration = durationMs.coerceAtLeast(1L)
     val stroke = GestureDescription.StrokeDescription(path, 0, safeDuration)
@@ -93,14 +186,30 @@ class AutomationService : AccessibilityService() {
     return buildGesture(path, durationMs)
   }
 
-  private fun pasteInternal(text: String, callback: (Boolean) -> Unit) {
+  /** Each stroke follows its own polyline; strokes may overlap in time. */
+  private fun gestureForStrokes(strokes: List<StrokeSpec>): GestureDescription {
+    val builder = GestureDescription.Builder()
+    strokes.forEach { stroke ->
+      val path = Path().apply {
+        stroke.points.forEachIndexed { index, point ->
+          if (index == 0) moveTo(point.x, point.y) else lineTo(point.x, point.y)
+        }
+      }
+      builder.addStroke(
+          GestureDescription.StrokeDescription(
+              path, stroke.startMs.coerceAtLeast(0L), stroke.durationMs.coerceAtLeast(1L)))
+    }
+    return builder.build()
+  }
+
+  private fun pasteInternal(text: String, callback: ErrorCallback) {
     mainHandler.post {
       val target =
           rootInActiveWindow?.findFocus(AccessibilityNodeInfo.FOCUS_INPUT)
               ?: rootInActiveWindow?.findFocus(AccessibilityNodeInfo.FOCUS_ACCESSIBILITY)
 
       if (target == null) {
-        callback(false)
+        callback("NO_FOCUSED_FIELD")
         return@post
       }
 
@@ -109,24 +218,358 @@ class AutomationService : AccessibilityService() {
       }
       val setOk = target.performAction(AccessibilityNodeInfo.ACTION_SET_TEXT, args)
       if (setOk) {
-        callback(true)
+        callback(null)
         return@post
       }
 
       val clipboard = getSystemService(Context.CLIPBOARD_SERVICE) as ClipboardManager
       clipboard.setPrimaryClip(ClipData.newPlainText("automation", text))
       val pasteOk = target.performAction(AccessibilityNodeInfo.ACTION_PASTE)
-      callback(pasteOk)
+      callback(if (pasteOk) null else "PASTE_REJECTED")
+    }
+  }
+
+  /**
+   * Sets text on the focused field, or on the index-th node matching the
+   * query, without touching the clipboard. Falls back to select + paste for
+   * fields that ignore ACTION_SET_TEXT, then restores the previous clip.
+   */
+  private fun setTextInternal(
+      text: String,
+      queryText: String?,
+      queryId: String?,
+      exact: Boolean,
+      index: Int,
+      append: Boolean,
+      callback: (SetTextOutcome) -> Unit,
+  ) {
+    mainHandler.post {
+      val targeted = queryText != null || queryId != null
+      val target =
+          if (targeted) {
+            findNodesInternal(queryText, queryId, exact).getOrNull(index)
+          } else {
+            rootInActiveWindow?.findFocus(AccessibilityNodeInfo.FOCUS_INPUT)
+          }
+      if (target == null) {
+        callback(SetTextOutcome(error = if (targeted) "NODE_NOT_FOUND" else "NO_FOCUSED_FIELD"))
+        return@post
+      }
+      if (!target.isEditable) {
+        callback(SetTextOutcome(error = "NOT_EDITABLE"))
+        return@post
+      }
+
+      val showingHint =
+          Build.VERSION.SDK_INT >= Build.VERSION_CODES.O && target.isShowingHintText
+      val current = if (showingHint) "" else target.text?.toString().orEmpty()
+      val args = Bundle().apply {
+        putCharSequence(
+            AccessibilityNodeInfo.ACTION_ARGUMENT_SET_TEXT_CHARSEQUENCE,
+            if (append) current + text else text)
+      }
+      if (target.performAction(AccessibilityNodeInfo.ACTION_SET_TEXT, args)) {
+        callback(SetTextOutcome(method = "setText"))
+        return@post
+      }
+
+      if (targeted) {
+        target.performAction(AccessibilityNodeInfo.ACTION_FOCUS)
+      }
+      // Select the old text so the paste replaces it, or put the caret at the end
+      val selection = Bundle().apply {
+        putInt(AccessibilityNodeInfo.ACTION_ARGUMENT_SELECTION_START_INT, if (append) current.length else 0)
+        putInt(AccessibilityNodeInfo.ACTION_ARGUMENT_SELECTION_END_INT, current.length)
+      }
+      target.performAction(AccessibilityNodeInfo.ACTION_SET_SELECTION, selection)
+
+      val clipboard = getSystemService(Context.CLIPBOARD_SERVICE) as ClipboardManager
+      // Android 10+ hides the clipboard from background apps; then there is
+      // nothing to restore and the pasted text is cleared instead.
+      val previous = clipboard.primaryClip
+      clipboard.setPrimaryClip(ClipData.newPlainText("automation", text))
+      val pasted = target.performAction(AccessibilityNodeInfo.ACTION_PASTE)
+      mainHandler.postDelayed(
+          {
+            if (previous != null) {
+              clipboard.setPrimaryClip(previous)
+            } else if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.P) {
+              clipboard.clearPrimaryClip()
+            }
+          },
+          CLIPBOARD_RESTORE_DELAY_MS,
+      )
+      callback(
+          if (pasted) SetTextOutcome(method = "paste") else SetTextOutcome(error = "PASTE_REJECTED"))
+    }
+  }
+
+  /** Matches by visible text or content description, or by resource id. */
+  private fun findNodesInternal(
+      text: String?,
+      viewId: String?,
+      exact: Boolean,
+  ): List<AccessibilityNodeInfo> {
+    val root = rootInActiveWindow ?: return emptyList()
+    if (viewId != null) {
+      val fullId = if (viewId.contains(":")) viewId else "${root.packageName}:id/$viewId"
+      return root.findAccessibilityNodeInfosByViewId(fullId).filter { it.isVisibleToUser }
+    }
+    if (text == null) {
+      return emptyList()
+    }
+    // findAccessibilityNodeInfosByText already matches substrings, case-insensitively
+    return root.findAccessibilityNodeInfosByText(text).filter { node ->
+      node.isVisibleToUser &&
+          (!exact ||
+              node.text?.toString() == text ||
+              node.contentDescription?.toString() == text)
+    }
+  }
+
+  private fun findInternal(
+      text: String?,
+      viewId: String?,
+      exact: Boolean,
+      callback: (List<NodeSnapshot>) -> Unit,
+  ) {
+    mainHandler.post {
+      val nodes = findNodesInternal(text, viewId, exact)
+      callback(
+          nodes.mapIndexed { index, node ->
+            val bounds = Rect().also { node.getBoundsInScreen(it) }
+            NodeSnapshot(
+                index = index,
+                text = node.text?.toString(),
+                contentDescription = node.contentDescription?.toString(),
+                viewId = node.viewIdResourceName,
+                className = node.className?.toString(),
+                bounds = bounds,
+                clickable = node.isClickable,
+                editable = node.isEditable,
+            )
+          })
+    }
+  }
+
+  /**
+   * Clicks the node itself or its nearest clickable ancestor; labels inside
+   * buttons are often not clickable. Falls back to tapping the node's center.
+   */
+  private fun clickInternal(
+      text: String?,
+      viewId: String?,
+      exact: Boolean,
+      index: Int,
+      callback: ErrorCallback,
+  ) {
+    mainHandler.post {
+      val node = findNodesInternal(text, viewId, exact).getOrNull(index)
+      if (node == null) {
+        callback("NODE_NOT_FOUND")
+        return@post
+      }
+
+      var target: AccessibilityNodeInfo? = node
+      while (target != null && !target.isClickable) {
+        target = target.parent
+      }
+      if (target?.performAction(AccessibilityNodeInfo.ACTION_CLICK) == true) {
+        callback(null)
+        return@post
+      }
+
+      val bounds = Rect().also { node.getBoundsInScreen(it) }
+      if (bounds.isEmpty) {
+        callback("ACTION_FAILED")
+        return@post
+      }
+      dispatchGestureWithCallback(
+          gestureForTap(bounds.exactCenterX(), bounds.exactCenterY(), 60L), callback)
+    }
+  }
+
+  private fun globalActionInternal(action: Int, callback: ErrorCallback) {
+    mainHandler.post { callback(if (performGlobalAction(action)) null else "ACTION_FAILED") }
+  }
+
+  /**
+   * Captures the default display into a JPEG under cacheDir/screenshots and
+   * returns its file URI. Requires Android 11; the system rejects requests
+   * closer than about 333 ms apart, so a too-early request is retried once.
+   */
+  private fun screenshotInternal(callback: (ScreenshotOutcome) -> Unit, retried: Boolean = false) {
+    if (Build.VERSION.SDK_INT < Build.VERSION_CODES.R) {
+      callback(ScreenshotOutcome(error = "UNSUPPORTED"))
+      return
+    }
+    takeScreenshot(
+        Display.DEFAULT_DISPLAY,
+        mainExecutor,
+        object : TakeScreenshotCallback {
+          override fun onSuccess(screenshot: ScreenshotResult) {
+            val buffer = screenshot.hardwareBuffer
+            // Hardware bitmaps cannot be compressed, copy to a software one first
+            val bitmap =
+                Bitmap.wrapHardwareBuffer(buffer, screenshot.colorSpace)
+                    ?.copy(Bitmap.Config.ARGB_8888, false)
+            buffer.close()
+            if (bitmap == null) {
+              callback(ScreenshotOutcome(error = "ACTION_FAILED"))
+              return
+            }
+            diskExecutor.execute {
+              val outcome =
+                  try {
+                    ScreenshotOutcome(uri = Uri.fromFile(saveScreenshot(bitmap)).toString())
+                  } catch (e: Exception) {
+                    Log.w(TAG, "Failed to save screenshot", e)
+                    ScreenshotOutcome(error = "ACTION_FAILED")
+                  } finally {
+                    bitmap.recycle()
+                  }
+              mainHandler.post { callback(outcome) }
+            }
+          }
+
+          override fun onFailure(errorCode: Int) {
+            if (errorCode == ERROR_TAKE_SCREENSHOT_INTERVAL_TIME_SHORT && !retried) {
+              mainHandler.postDelayed(
+                  { screenshotInternal(callback, retried = true) }, SCREENSHOT_RETRY_DELAY_MS)
+              return
+            }
+            callback(ScreenshotOutcome(error = "ACTION_FAILED"))
+          }
+        },
+    )
+  }
+
+  /** Keeps only the newest MAX_SCREENSHOTS files so the cache cannot grow unbounded. */
+  private fun saveScreenshot(bitmap: Bitmap): File {
+    val dir = File(cacheDir, "screenshots").apply { mkdirs() }
+    val file = File(dir, "screenshot-${System.currentTimeMillis()}.jpg")
+    file.outputStream().use { bitmap.compress(Bitmap.CompressFormat.JPEG, SCREENSHOT_QUALITY, it) }
+    dir.listFiles()
+        ?.sortedByDescending { it.lastModified() }
+        ?.drop(MAX_SCREENSHOTS)
+        ?.forEach { it.delete() }
+    return file
+  }
+
+  /**
+   * Copies the active window's node tree. Depth and size are capped so a
+   * pathological layout cannot produce an oversized bridge payload.
+   */
+  private fun hierarchyInternal(callback: (WindowNodeSnapshot?) -> Unit) {
+    mainHandler.post {
+      val root = rootInActiveWindow
+      if (root == null) {
+        callback(null)
+        return@post
+      }
+      var remaining = MAX_HIERARCHY_NODES
+      fun snapshot(node: AccessibilityNodeInfo, depth: Int): WindowNodeSnapshot {
+        remaining--
+        val children = mutableListOf<WindowNodeSnapshot>()
+        if (depth < MAX_HIERARCHY_DEPTH) {
+          for (i in 0 until node.childCount) {
+            if (remaining <= 0) break
+            node.getChild(i)?.let { children.add(snapshot(it, depth + 1)) }
+          }
+        }
+        return WindowNodeSnapshot(
+            className = node.className?.toString(),
+            text = node.text?.toString(),
+            contentDescription = node.contentDescription?.toString(),
+            viewId = node.viewIdResourceName,
+            packageName = node.packageName?.toString(),
+            bounds = Rect().also { node.getBoundsInScreen(it) },
+            clickable = node.isClickable,
+            editable = node.isEditable,
+            scrollable = node.isScrollable,
+            visible = node.isVisibleToUser,
+            children = children,
+        )
+      }
+      callback(snapshot(root, 0))
     }
   }
 
+  data class WindowNodeSnapshot(
+      val className: String?,
+      val text: String?,
+      val contentDescription: String?,
+      val viewId: String?,
+      val packageName: String?,
+      val bounds: Rect,
+      val clickable: Boolean,
+      val editable: Boolean,
+      val scrollable: Boolean,
+      val visible: Boolean,
+      val children: List<WindowNodeSnapshot>,
+  )
+
+  data class NodeSnapshot(
+      val index: Int,
+      val text: String?,
+      val contentDescription: String?,
+      val viewId: String?,
+      val className: String?,
+      val bounds: Rect,
+      val clickable: Boolean,
+      val editable: Boolean,
+  )
+
+  /** Either the method that worked ("setText" or "paste") or an error code. */
+  data class SetTextOutcome(
+      val method: String? = null,
+      val error: String? = null,
+  )
+
+  /** Either the file URI of the saved capture or an error code. */
+  data class ScreenshotOutcome(
+      val uri: String? = null,
+      val error: String? = null,
+  )
+
+  data class StrokeSpec(
+      val points: List<PointF>,
+      val startMs: Long,
+      val durationMs: Long,
+  )
+
+  /**
+   * Receives events that are forwarded to JS. Called on the main thread;
+   * content changes are already throttled by notificationTimeout.
+   */
+  interface EventSink {
+    fun onForegroundAppChanged(packageName: String, className: String?)
+
+    fun onWindowContentChanged(packageName: String?)
+  }
+
   companion object {
     private const val TAG = "AutomationService"
+    private const val MAX_HIERARCHY_DEPTH = 40
+    private const val MAX_HIERARCHY_NODES = 3000
+    private const val CLIPBOARD_RESTORE_DELAY_MS = 500L
+    private const val SCREENSHOT_RETRY_DELAY_MS = 350L
+    private const val SCREENSHOT_QUALITY = 85
+    private const val MAX_SCREENSHOTS = 100
 
     @Volatile private var instance: AutomationService? = null
 
+    @Volatile private var lastWindowPackage: String? = null
+
+    /** Set by AutomationModule while JS has event listeners. */
+    @Volatile var eventSink: EventSink? = null
+
     fun isRunning(): Boolean = instance != null
 
+    /** Package of the active window, falling back to the last window-state event. */
+    fun foregroundPackage(): String? =
+        instance?.rootInActiveWindow?.packageName?.toString() ?: lastWindowPackage
+
     private fun withService(action: (AutomationService) -> Unit): Boolean {
       val service = instance ?: return false
       action(service)
@@ -137,10 +580,11 @@ class AutomationService : AccessibilityService() {
         x: Float,
         y: Float,
         durationMs: Long = 60L,
-        callback: (Boolean) -> Unit,
+        callback: ErrorCallback,
     ): Boolean =
         withService { service ->
-          service.dispatchGestureWithCallback(service.gestureForTap(x, y, durationMs), callback)
+          service.dispatchOnScreen(
+              listOf(PointF(x, y)), { service.gestureForTap(x, y, durationMs) }, callback)
         }
 
     fun swipe(
@@ -149,16 +593,91 @@ class AutomationService : AccessibilityService() {
         endX: Float,
         endY: Float,
         durationMs: Long = 120L,
-        callback: (Boolean) -> Unit,
+        callback: ErrorCallback,
     ): Boolean =
         withService { service ->
-          service.dispatchGestureWithCallback(
-              service.gestureForSwipe(startX, startY, endX, endY, durationMs),
+          service.dispatchOnScreen(
+              listOf(PointF(startX, startY), PointF(endX, endY)),
+              { service.gestureForSwipe(startX, startY, endX, endY, durationMs) },
               callback,
           )
         }
 
-    fun pasteText(text: String, callback: (Boolean) -> Unit): Boolean =
+    /**
+     * Builds the gesture before dispatching so invalid strokes (negative
+     * coordinates, too many fingers, too long) throw to the caller.
+     */
+    fun gesture(strokes: List<StrokeSpec>, callback: ErrorCallback): Boolean =
+        withService { service ->
+          service.dispatchOnScreen(
+              strokes.flatMap { it.points }, { service.gestureForStrokes(strokes) }, callback)
+        }
+
+    fun pasteText(text: String, callback: ErrorCallback): Boolean =
         withService { service -> service.pasteInternal(text, callback) }
+
+    fun setText(
+        text: String,
+        queryText: String?,
+        queryId: String?,
+        exact: Boolean,
+        index: Int,
+        append: Boolean,
+        callback: (SetTextOutcome) -> Unit,
+    ): Boolean =
+        withService { service ->
+          service.setTextInternal(text, queryText, queryId, exact, index, append, callback)
+        }
+
+    fun findNodes(
+        text: String?,
+        viewId: String?,
+        exact: Boolean,
+        callback: (List<NodeSnapshot>) -> Unit,
+    ): Boolean = withService { service -> service.findInternal(text, viewId, exact, callback) }
+
+    fun waitForWindowChange(timeoutMs: Long, callback: (Boolean) -> Unit): Boolean =
+        withService { service -> service.awaitWindowChange(timeoutMs, callback) }
+
+    fun windowHierarchy(callback: (WindowNodeSnapshot?) -> Unit): Boolean =
+        withService { service -> service.hierarchyInternal(callback) }
+
+    fun screenshot(callback: (ScreenshotOutcome) -> Unit): Boolean =
+        withService { service -> service.mainHandler.post { service.screenshotInternal(callback) } }
+
+    /**
+     * Maps the JS action name to a GLOBAL_ACTION_* constant. Returns null for
+     * unknown names; actions the OS version lacks map to -1 (UNSUPPORTED).
+     */
+    fun globalActionCode(name: String): Int? =
+        when (name) {
+          "back" -> GLOBAL_ACTION_BACK
+          "home" -> GLOBAL_ACTION_HOME
+          "recents" -> GLOBAL_ACTION_RECENTS
+          "notifications" -> GLOBAL_ACTION_NOTIFICATIONS
+          "quickSettings" -> GLOBAL_ACTION_QUICK_SETTINGS
+          "lockScreen" ->
+              if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.P) GLOBAL_ACTION_LOCK_SCREEN
+              else -1
+          "screenshot" ->
+              if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.P) GLOBAL_ACTION_TAKE_SCREENSHOT
+              else -1
+          else -> null
+        }
+
+    fun globalAction(action: Int, callback: ErrorCallback): Boolean =
+        withService { service ->
+          if (action < 0) callback("UNSUPPORTED")
+          else service.globalActionInternal(action, callback)
+        }
+
+    fun clickNode(
+        text: String?,
+        viewId: String?,
+        exact: Boolean,
+        index: Int,
+        callback: ErrorCallback,
+    ): Boolean =
+        withService { service -> service.clickInternal(text, viewId, exact, index, callback) }
   }
 }
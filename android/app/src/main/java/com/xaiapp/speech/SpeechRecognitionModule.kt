@@ -18,6 +18,7 @@ import com.facebook.react.bridge.ReactContextBaseJavaModule
 import com.facebook.react.bridge.ReactMethod
 import com.facebook.react.bridge.WritableMap
 import com.facebook.react.bridge.UiThreadUtil
+import com.facebook.react.modules.core.DeviceEventManagerModule
 
 class SpeechRecognitionModule(private val reactContext: ReactApplicationContext) :
     ReactContextBaseJavaModule(reactContext), ActivityEventListener {
@@ -26,8 +27,15 @@ class SpeechRecognitionModule(private val reactContext: ReactApplicationContext)
   private var currentPromise: Promise? = null
   private var isListening = false
 
+  /** JS listener count, maintained by NativeEventEmitter. */
+  private var listenerCount = 0
+
   companion object {
     private const val TAG = "SpeechRecognition"
+
+    private const val SPEECH_START = "SpeechRecognitionStart"
+    private const val SPEECH_END = "SpeechRecognitionEnd"
+    private const val PARTIAL_RESULT = "SpeechRecognitionPartialResult"
   }
 
   override fun getName(): String = "SpeechRecognitionModule"
@@ -36,6 +44,25 @@ class SpeechRecognitionModule(private val reactContext: ReactApplicationContext)
     reactContext.addActivityEventListener(this)
   }
 
+  private fun emit(eventName: String, params: WritableMap = Arguments.createMap()) {
+    if (listenerCount > 0 && reactContext.hasActiveReactInstance()) {
+      reactContext
+          .getJSModule(DeviceEventManagerModule.RCTDeviceEventEmitter::class.java)
+          .emit(eventName, params)
+    }
+  }
+
+  /** Events are only forwarded while at least one JS listener is registered. */
+  @ReactMethod
+  fun addListener(eventName: String) {
+    listenerCount += 1
+  }
+
+  @ReactMethod
+  fun removeListeners(count: Int) {
+    listenerCount = (listenerCount - count).coerceAtLeast(0)
+  }
+
   /**
    * 检查是否有录音权限
    */
@@ -176,6 +203,7 @@ class SpeechRecognitionModule(private val reactContext: ReactApplicationContext)
 
       override fun onBeginningOfSpeech() {
         Log.d(TAG, "Beginning of speech")
+        emit(SPEECH_START)
       }
 
       override fun onRmsChanged(rmsdB: Float) {
@@ -189,6 +217,7 @@ class SpeechRecognitionModule(private val reactContext: ReactApplicationContext)
       override fun onEndOfSpeech() {
         Log.d(TAG, "End of speech")
         isListening = false
+        emit(SPEECH_END)
       }
 
       override fun onError(error: Int) {
@@ -238,6 +267,7 @@ class SpeechRecognitionModule(private val reactContext: ReactApplicationContext)
         val matches = partialResults?.getStringArrayList(SpeechRecognizer.RESULTS_RECOGNITION)
         if (matches != null && matches.isNotEmpty()) {
           Log.d(TAG, "Partial result: ${matches[0]}")
+          emit(PARTIAL_RESULT, Arguments.createMap().apply { putString("text", matches[0]) })
         }
       }
 
@@ -0,0 +1,42 @@
+package com.xaiapp.storage
+
+import android.content.Context
+import com.facebook.react.bridge.Promise
+import com.facebook.react.bridge.ReactApplicationContext
+import com.facebook.react.bridge.ReactContextBaseJavaModule
+import com.facebook.react.bridge.ReactMethod
+
+/**
+ * 基于 SharedPreferences 的简单键值存储，用于持久化别名、宏等用户数据
+ */
+class KeyValueStoreModule(reactContext: ReactApplicationContext) :
+    ReactContextBaseJavaModule(reactContext) {
+
+  private val preferences =
+      reactContext.getSharedPreferences(PREFERENCES_NAME, Context.MODE_PRIVATE)
+
+  companion object {
+    private const val PREFERENCES_NAME = "xaiapp_store"
+  }
+
+  override fun getName(): String = "KeyValueStoreModule"
+
+  @ReactMethod
+  fun getItem(key: String, promise: Promise) {
+    try {
+      promise.resolve(preferences.getString(key, null))
+    } catch (e: Exception) {
+      promise.reject("READ_FAILED", e)
+    }
+  }
+
+  @ReactMethod
+  fun setItem(key: String, value: String, promise: Promise) {
+    promise.resolve(preferences.edit().putString(key, value).commit())
+  }
+
+  @ReactMethod
+  fun removeItem(key: String, promise: Promise) {
+    promise.resolve(preferences.edit().remove(key).commit())
+  }
+}
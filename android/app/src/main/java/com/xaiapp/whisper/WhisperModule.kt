@@ -96,9 +96,10 @@ class WhisperModule(private val reactContext: ReactApplicationContext) :
 
   /**
    * 开始录音
+   * @param language 识别语言，例如 'zh-CN'、'en-US'
    */
   @ReactMethod
-  fun startRecording(promise: Promise) {
+  fun startRecording(language: String, promise: Promise) {
     if (isRecording) {
       promise.reject("ALREADY_RECORDING", "Recording is already in progress")
       return
@@ -161,7 +162,7 @@ class WhisperModule(private val reactContext: ReactApplicationContext) :
         if (audioData.isNotEmpty()) {
           val floatArray = audioData.map { it / 32768.0f }.toFloatArray()
           UiThreadUtil.runOnUiThread {
-            transcribeAudio(floatArray, currentPromise ?: promise)
+            transcribeAudio(floatArray, language, currentPromise ?: promise)
           }
         } else {
           UiThreadUtil.runOnUiThread {
@@ -197,15 +198,16 @@ class WhisperModule(private val reactContext: ReactApplicationContext) :
 
   /**
    * 转写音频数据
+   * @param language BCP 47 语言代码，Whisper 只使用其中的语言部分（zh-CN → zh）
    */
-  private fun transcribeAudio(audioData: FloatArray, promise: Promise) {
+  private fun transcribeAudio(audioData: FloatArray, language: String, promise: Promise) {
     if (!isLibraryLoaded) {
       promise.reject("LIBRARY_NOT_LOADED", "whisper_bridge library is not loaded")
       return
     }
 
     try {
-      val text = nativeTranscribe(audioData)
+      val text = nativeTranscribe(audioData, language.substringBefore('-').lowercase())
       if (text != null && text.isNotEmpty()) {
         val result: WritableMap = Arguments.createMap().apply {
           putString("text", text)
@@ -279,6 +281,6 @@ class WhisperModule(private val reactContext: ReactApplicationContext) :
 
   // JNI 方法声明
   private external fun nativeInitializeModel(modelPath: String): Boolean
-  private external fun nativeTranscribe(audioData: FloatArray): String?
+  private external fun nativeTranscribe(audioData: FloatArray, language: String): String?
   private external fun nativeRelease()
 }
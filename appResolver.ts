@@ -0,0 +1,232 @@
+/**
+ * 应用名称解析
+ * 把口语中的应用名（微信、支付宝……）解析为 Android 包名
+ */
+
+import type { InstalledApp } from './automation';
+import { getJSON, setJSON } from './storage';
+import { similarity, toPinyin } from './textSimilarity';
+
+export type AppAlias = {
+  name: string;
+  packageName: string;
+};
+
+export type AppMatchSource = 'package' | 'user' | 'installed' | 'builtin';
+
+export type AppMatch = {
+  packageName: string;
+  /** 命中的别名，直接给出包名时与包名相同 */
+  name: string;
+  source: AppMatchSource;
+  /** 匹配得分，0-1 */
+  score: number;
+};
+
+const USER_ALIASES_KEY = 'appResolver.userAliases';
+
+/** 低于该得分的模糊匹配视为未找到 */
+const MIN_MATCH_SCORE = 0.7;
+
+const BUILTIN_APPS: { packageName: string; names: string[] }[] = [
+  { packageName: 'com.tencent.mm', names: ['微信', 'WeChat'] },
+  { packageName: 'com.tencent.mobileqq', names: ['QQ'] },
+  { packageName: 'com.tencent.wework', names: ['企业微信', 'WeCom'] },
+  { packageName: 'com.eg.android.AlipayGphone', names: ['支付宝', 'Alipay'] },
+  { packageName: 'com.taobao.taobao', names: ['淘宝', 'Taobao'] },
+  { packageName: 'com.tmall.wireless', names: ['天猫', 'Tmall'] },
+  { packageName: 'com.jingdong.app.mall', names: ['京东', 'JD'] },
+  { packageName: 'com.xunmeng.pinduoduo', names: ['拼多多', 'Pinduoduo'] },
+  {
+    packageName: 'com.ss.android.ugc.aweme',
+    names: ['抖音', 'TikTok', 'Douyin'],
+  },
+  { packageName: 'com.smile.gifmaker', names: ['快手', 'Kuaishou'] },
+  { packageName: 'tv.danmaku.bili', names: ['哔哩哔哩', 'B站', 'bilibili'] },
+  { packageName: 'com.sina.weibo', names: ['微博', 'Weibo'] },
+  { packageName: 'com.xingin.xhs', names: ['小红书', 'Xiaohongshu', 'RED'] },
+  { packageName: 'com.zhihu.android', names: ['知乎', 'Zhihu'] },
+  { packageName: 'com.sankuai.meituan', names: ['美团', 'Meituan'] },
+  { packageName: 'me.ele', names: ['饿了么', 'Eleme'] },
+  { packageName: 'com.autonavi.minimap', names: ['高德地图', '高德', 'Amap'] },
+  { packageName: 'com.baidu.BaiduMap', names: ['百度地图', 'Baidu Maps'] },
+  { packageName: 'com.baidu.searchbox', names: ['百度', 'Baidu'] },
+  {
+    packageName: 'com.netease.cloudmusic',
+    names: ['网易云音乐', '网易云', 'NetEase Music'],
+  },
+  { packageName: 'com.tencent.qqmusic', names: ['QQ音乐', 'QQ Music'] },
+  { packageName: 'com.tencent.qqlive', names: ['腾讯视频', 'Tencent Video'] },
+  { packageName: 'com.qiyi.video', names: ['爱奇艺', 'iQIYI'] },
+  { packageName: 'com.youku.phone', names: ['优酷', 'Youku'] },
+  { packageName: 'com.alibaba.android.rimet', names: ['钉钉', 'DingTalk'] },
+  { packageName: 'com.ss.android.lark', names: ['飞书', 'Feishu', 'Lark'] },
+  { packageName: 'com.sdu.didi.psnger', names: ['滴滴出行', '滴滴', 'DiDi'] },
+  { packageName: 'ctrip.android.view', names: ['携程', 'Ctrip', 'Trip.com'] },
+  { packageName: 'com.MobileTicket', names: ['12306', '铁路12306'] },
+  { packageName: 'com.android.chrome', names: ['Chrome', '谷歌浏览器'] },
+  { packageName: 'com.google.android.youtube', names: ['YouTube'] },
+  {
+    packageName: 'com.android.settings',
+    names: ['设置', '系统设置', 'Settings'],
+  },
+];
+
+const PACKAGE_NAME_PATTERN = /^[a-zA-Z][\w]*(\.[a-zA-Z_][\w]*)+$/;
+
+let userAliases: AppAlias[] = [];
+
+/** 本机已安装应用的显示名称，由 setInstalledApps 更新 */
+let installedAliases: AppAlias[] = [];
+
+/**
+ * 去掉空白、标点和“应用/软件/app”之类的后缀
+ */
+function normalizeName(name: string): string {
+  return name
+    .replace(/[\s\p{P}]/gu, '')
+    .replace(/(app|应用|软件|程序)$/i, '')
+    .toLowerCase();
+}
+
+/**
+ * 计算口语名称与别名的相似度，0-1
+ */
+function scoreName(query: string, alias: string): number {
+  const normalizedQuery = normalizeName(query);
+  const normalizedAlias = normalizeName(alias);
+  if (!normalizedQuery || !normalizedAlias) {
+    return 0;
+  }
+  if (normalizedQuery === normalizedAlias) {
+    return 1;
+  }
+
+  const queryPinyin = toPinyin(normalizedQuery);
+  const aliasPinyin = toPinyin(normalizedAlias);
+  // 同音字，例如 Whisper 把“微信”写成“维信”
+  if (queryPinyin === aliasPinyin) {
+    return 0.9;
+  }
+  // 简称，例如“高德” -> “高德地图”
+  if (
+    normalizedAlias.startsWith(normalizedQuery) ||
+    normalizedQuery.startsWith(normalizedAlias)
+  ) {
+    const ratio =
+      Math.min(normalizedQuery.length, normalizedAlias.length) /
+      Math.max(normalizedQuery.length, normalizedAlias.length);
+    return 0.7 + 0.15 * ratio;
+  }
+
+  return similarity(queryPinyin, aliasPinyin) * 0.8;
+}
+
+function allAliases(): { alias: AppAlias; source: AppMatchSource }[] {
+  return [
+    ...userAliases.map(alias => ({ alias, source: 'user' as const })),
+    ...installedAliases.map(alias => ({ alias, source: 'installed' as const })),
+    ...BUILTIN_APPS.flatMap(app =>
+      app.names.map(name => ({
+        alias: { name, packageName: app.packageName },
+        source: 'builtin' as const,
+      })),
+    ),
+  ];
+}
+
+/**
+ * 把口语应用名解析为包名
+ * 依次尝试：原始包名、用户别名、已安装应用名、内置别名（含拼音和模糊匹配）
+ * @returns 最佳匹配，找不到时返回 null
+ */
+export function resolveAppName(spokenName: string): AppMatch | null {
+  const trimmed = spokenName.trim();
+  if (!trimmed) {
+    return null;
+  }
+  if (PACKAGE_NAME_PATTERN.test(trimmed)) {
+    return { packageName: trimmed, name: trimmed, source: 'package', score: 1 };
+  }
+
+  let best: AppMatch | null = null;
+  for (const { alias, source } of allAliases()) {
+    const score = scoreName(trimmed, alias.name);
+    // 同分时用户别名优先，其次是本机应用名（列表中排在前面）
+    if (score >= MIN_MATCH_SCORE && (!best || score > best.score)) {
+      best = {
+        packageName: alias.packageName,
+        name: alias.name,
+        source,
+        score,
+      };
+    }
+  }
+  return best;
+}
+
+/**
+ * 用本机已安装应用的名称补充别名，说出桌面上显示的应用名即可打开
+ * 没有启动入口的应用无法打开，不参与匹配
+ */
+export function setInstalledApps(apps: InstalledApp[]) {
+  installedAliases = apps
+    .filter(app => app.launchable)
+    .map(app => ({ name: app.label, packageName: app.packageName }));
+}
+
+/**
+ * 按应用名、应用名拼音或包名搜索，关键字为空时返回全部
+ */
+export function searchInstalledApps(
+  apps: InstalledApp[],
+  keyword: string,
+): InstalledApp[] {
+  const query = keyword.replace(/\s+/g, '').toLowerCase();
+  if (!query) {
+    return apps;
+  }
+  return apps.filter(
+    app =>
+      app.label.replace(/\s+/g, '').toLowerCase().includes(query) ||
+      app.packageName.toLowerCase().includes(query) ||
+      toPinyin(app.label).includes(query),
+  );
+}
+
+/**
+ * 从本地存储加载用户别名
+ */
+export async function loadUserAliases(): Promise<AppAlias[]> {
+  userAliases = await getJSON<AppAlias[]>(USER_ALIASES_KEY, []);
+  return userAliases;
+}
+
+export function getUserAliases(): AppAlias[] {
+  return userAliases;
+}
+
+/**
+ * 新增或覆盖一个用户别名
+ */
+export async function addUserAlias(
+  name: string,
+  packageName: string,
+): Promise<AppAlias[]> {
+  const trimmedName = name.trim();
+  userAliases = [
+    { name: trimmedName, packageName: packageName.trim() },
+    ...userAliases.filter(alias => alias.name !== trimmedName),
+  ];
+  await setJSON(USER_ALIASES_KEY, userAliases);
+  return userAliases;
+}
+
+/**
+ * 删除一个用户别名
+ */
+export async function removeUserAlias(name: string): Promise<AppAlias[]> {
+  userAliases = userAliases.filter(alias => alias.name !== name);
+  await setJSON(USER_ALIASES_KEY, userAliases);
+  return userAliases;
+}
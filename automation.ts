@@ -1,20 +1,302 @@
-import {NativeModules, Platform} from 'react-native';
+import { NativeEventEmitter, NativeModules, Platform } from 'react-native';
+
+/**
+ * 查找界面元素的条件，text 同时匹配可见文字和内容描述
+ * id 可以只写资源名（send_button），会补全为当前应用的完整 id
+ */
+export type NodeQuery = {
+  text?: string;
+  id?: string;
+  /** 为 true 时要求完全相同，否则包含即可（忽略大小写） */
+  exact?: boolean;
+};
+
+export type NodeBounds = {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+};
+
+/**
+ * 无障碍树中找到的元素
+ */
+export type UiNode = {
+  /** 在查找结果中的序号，点击时用来指定元素 */
+  index: number;
+  text: string | null;
+  contentDescription: string | null;
+  viewId: string | null;
+  className: string | null;
+  /** 屏幕坐标，单位像素 */
+  bounds: NodeBounds;
+  clickable: boolean;
+  editable: boolean;
+};
+
+/**
+ * 当前窗口的无障碍树节点
+ */
+export type WindowNode = {
+  className: string | null;
+  text: string | null;
+  contentDescription: string | null;
+  viewId: string | null;
+  packageName: string | null;
+  bounds: NodeBounds;
+  clickable: boolean;
+  editable: boolean;
+  scrollable: boolean;
+  /** 是否显示在屏幕上，findNodes 只匹配可见的节点 */
+  visible: boolean;
+  children: WindowNode[];
+};
+
+export type NodePosition = 'top' | 'bottom' | 'left' | 'right';
+
+/**
+ * 多个元素匹配时选择哪一个，默认第一个
+ */
+export type NodeSelector = {
+  /** 从 0 开始的序号，按屏幕上从上到下、从左到右排列 */
+  index?: number;
+  position?: NodePosition;
+};
+
+/** replace 覆盖原有内容，append 追加到末尾 */
+export type SetTextMode = 'replace' | 'append';
+
+/** 实际使用的输入方式，paste 时经过了剪贴板，原内容已恢复 */
+export type SetTextMethod = 'setText' | 'paste';
+
+export type PixelPoint = { x: number; y: number };
+
+/**
+ * 手势中的一根手指：沿 points 组成的折线移动
+ * startMs 为相对手势开始的时间，多根手指同时按下即为多指手势
+ */
+export type GestureStroke = {
+  points: PixelPoint[];
+  startMs: number;
+  durationMs: number;
+};
+
+/**
+ * 无障碍服务的全局操作，相当于按系统按键或下拉状态栏
+ * lockScreen 和 screenshot 需要 Android 9 及以上
+ */
+export type GlobalAction =
+  | 'back'
+  | 'home'
+  | 'recents'
+  | 'notifications'
+  | 'quickSettings'
+  | 'lockScreen'
+  | 'screenshot';
+
+/**
+ * 本机安装的应用，只包含系统允许本应用看到的（有桌面图标的应用）
+ */
+export type InstalledApp = {
+  packageName: string;
+  /** 桌面上显示的应用名 */
+  label: string;
+  /** 图标 PNG 的文件 URI，读取失败时为 null */
+  iconUri: string | null;
+  /** 有启动入口，可以用 openApp 打开 */
+  launchable: boolean;
+};
+
+export type ForegroundAppEvent = {
+  packageName: string;
+  /** 切换到的窗口类名，通常是 Activity 或对话框 */
+  className: string | null;
+};
+
+export type WindowContentEvent = {
+  packageName: string | null;
+};
+
+/**
+ * 无障碍事件及其内容
+ * 前台应用只在包名变化时通知；本应用自身的界面变化不会通知
+ */
+export type AutomationEvents = {
+  foregroundAppChanged: ForegroundAppEvent;
+  windowContentChanged: WindowContentEvent;
+};
+
+export type AutomationEventName = keyof AutomationEvents;
+
+/**
+ * 自动化接口失败时的错误码，原生模块以同样的 code 拒绝
+ */
+export type AutomationErrorCode =
+  /** 没有原生模块（非 Android 平台） */
+  | 'UNAVAILABLE'
+  | 'SERVICE_NOT_RUNNING'
+  | 'APP_NOT_INSTALLED'
+  /** 没有匹配的元素（点击或输入的目标） */
+  | 'NODE_NOT_FOUND'
+  | 'NO_FOCUSED_FIELD'
+  | 'NOT_EDITABLE'
+  /** 直接设置失败，改用粘贴也被拒绝 */
+  | 'PASTE_REJECTED'
+  /** 坐标在屏幕之外，系统会直接丢弃手势 */
+  | 'OUT_OF_BOUNDS'
+  /** 手势执行中被打断，例如用户触摸了屏幕 */
+  | 'GESTURE_CANCELLED'
+  /** 系统拒绝执行手势 */
+  | 'GESTURE_REJECTED'
+  /** 当前系统版本不支持 */
+  | 'UNSUPPORTED'
+  | 'INVALID_ARGUMENT'
+  /** 系统没有执行无障碍操作，原因未知 */
+  | 'ACTION_FAILED'
+  | 'TIMEOUT'
+  | 'CANCELLED'
+  | 'UNKNOWN';
+
+const AUTOMATION_ERROR_CODES: readonly AutomationErrorCode[] = [
+  'UNAVAILABLE',
+  'SERVICE_NOT_RUNNING',
+  'APP_NOT_INSTALLED',
+  'NODE_NOT_FOUND',
+  'NO_FOCUSED_FIELD',
+  'NOT_EDITABLE',
+  'PASTE_REJECTED',
+  'OUT_OF_BOUNDS',
+  'GESTURE_CANCELLED',
+  'GESTURE_REJECTED',
+  'UNSUPPORTED',
+  'INVALID_ARGUMENT',
+  'ACTION_FAILED',
+  'TIMEOUT',
+  'CANCELLED',
+  'UNKNOWN',
+];
+
+export class AutomationError extends Error {
+  code: AutomationErrorCode;
+
+  constructor(code: AutomationErrorCode, message: string) {
+    super(message);
+    this.name = 'AutomationError';
+    this.code = code;
+  }
+}
+
+/**
+ * 把原生模块或其他来源的异常统一为 AutomationError，无法识别的 code 记为 UNKNOWN
+ */
+export function toAutomationError(error: unknown): AutomationError {
+  if (error instanceof AutomationError) {
+    return error;
+  }
+  const code = (error as { code?: unknown } | null)?.code;
+  const message = error instanceof Error ? error.message : String(error);
+  return new AutomationError(
+    AUTOMATION_ERROR_CODES.includes(code as AutomationErrorCode)
+      ? (code as AutomationErrorCode)
+      : 'UNKNOWN',
+    message,
+  );
+}
 
 type AutomationNativeModule = {
   isAccessibilityServiceRunning: () => Promise<boolean>;
-  openAccessibilitySettings: () => Promise<boolean>;
-  openApp: (packageName: string) => Promise<boolean>;
-  tap: (x: number, y: number, durationMs: number) => Promise<boolean>;
+  openAccessibilitySettings: () => Promise<void>;
+  openApp: (packageName: string) => Promise<void>;
+  tap: (x: number, y: number, durationMs: number) => Promise<void>;
   swipe: (
     startX: number,
     startY: number,
     endX: number,
     endY: number,
     durationMs: number,
-  ) => Promise<boolean>;
-  pasteText: (text: string) => Promise<boolean>;
+  ) => Promise<void>;
+  pasteText: (text: string) => Promise<void>;
+  setText: (
+    text: string,
+    target: NodeQuery | null,
+    index: number,
+    mode: SetTextMode,
+  ) => Promise<SetTextMethod>;
+  getForegroundApp: () => Promise<string | null>;
+  findNodes: (query: NodeQuery) => Promise<UiNode[]>;
+  clickNode: (query: NodeQuery, index: number) => Promise<void>;
+  getWindowHierarchy: () => Promise<WindowNode | null>;
+  waitForWindowChange: (timeoutMs: number) => Promise<boolean>;
+  performGlobalAction: (action: GlobalAction) => Promise<void>;
+  dispatchGesture: (strokes: GestureStroke[]) => Promise<void>;
+  captureScreenshot: () => Promise<string>;
+  listInstalledApps: () => Promise<InstalledApp[]>;
+  addListener: (eventName: string) => void;
+  removeListeners: (count: number) => void;
 };
 
+/**
+ * 自动化后端
+ * 默认使用 Android 无障碍原生模块，也可以换成模拟设备（见 simulatedDevice.ts）
+ * 操作失败时以 AutomationError 拒绝，而不是返回 false
+ */
+export type AutomationBackend = {
+  isServiceRunning: () => Promise<boolean>;
+  openAccessibilitySettings: () => Promise<void>;
+  /** 未安装或没有启动入口时以 APP_NOT_INSTALLED 拒绝 */
+  openApp: (packageName: string) => Promise<void>;
+  tap: (x: number, y: number, durationMs: number) => Promise<void>;
+  swipe: (
+    startX: number,
+    startY: number,
+    endX: number,
+    endY: number,
+    durationMs: number,
+  ) => Promise<void>;
+  pasteText: (text: string) => Promise<void>;
+  /**
+   * 设置输入框内容，target 为 null 时作用于获得焦点的输入框
+   * 优先直接设置，不支持时再经剪贴板粘贴
+   */
+  setText: (
+    text: string,
+    target: NodeQuery | null,
+    index: number,
+    mode: SetTextMode,
+  ) => Promise<SetTextMethod>;
+  getForegroundApp: () => Promise<string | null>;
+  /** 在当前窗口中查找元素 */
+  findNodes: (query: NodeQuery) => Promise<UiNode[]>;
+  /** 重新查找并点击第 index 个元素，找不到时以 NODE_NOT_FOUND 拒绝 */
+  clickNode: (query: NodeQuery, index: number) => Promise<void>;
+  /** 当前窗口的完整无障碍树，没有活动窗口时返回 null */
+  getWindowHierarchy: () => Promise<WindowNode | null>;
+  /**
+   * 等待其他应用的窗口发生变化（内容更新或切换窗口）
+   * @returns 超时前发生变化时为 true
+   */
+  waitForWindowChange: (timeoutMs: number) => Promise<boolean>;
+  /** 执行全局操作，系统版本不支持时以 UNSUPPORTED 拒绝 */
+  performGlobalAction: (action: GlobalAction) => Promise<void>;
+  /** 一次性执行由多个笔画组成的手势 */
+  dispatchGesture: (strokes: GestureStroke[]) => Promise<void>;
+  /**
+   * 截取当前屏幕并保存为图片，返回文件 URI
+   * 需要 Android 11 及以上，较低版本以 UNSUPPORTED 拒绝
+   */
+  captureScreenshot: () => Promise<string>;
+  /** 已安装的应用，按应用名排序，不需要开启无障碍服务 */
+  listInstalledApps: () => Promise<InstalledApp[]>;
+  /** 订阅无障碍事件，返回取消订阅的函数 */
+  subscribe: <E extends AutomationEventName>(
+    event: E,
+    listener: (payload: AutomationEvents[E]) => void,
+  ) => () => void;
+};
+
+/** 会被记录和模拟的调用，不包括事件订阅 */
+export type AutomationMethod = Exclude<keyof AutomationBackend, 'subscribe'>;
+
 const nativeModule: AutomationNativeModule | null =
   Platform.OS === 'android'
     ? (NativeModules.AutomationModule as AutomationNativeModule)
@@ -22,29 +304,114 @@ const nativeModule: AutomationNativeModule | null =
 
 function ensureAvailable(): AutomationNativeModule {
   if (!nativeModule) {
-    throw new Error('自动化功能仅支持已开启无障碍的 Android 设备。');
+    throw new AutomationError(
+      'UNAVAILABLE',
+      '自动化功能仅支持已开启无障碍的 Android 设备。',
+    );
   }
   return nativeModule;
 }
 
+/**
+ * 调用原生方法，把拒绝原因统一为 AutomationError
+ */
+async function callNative<T>(
+  call: (module: AutomationNativeModule) => Promise<T>,
+): Promise<T> {
+  const module = ensureAvailable();
+  try {
+    return await call(module);
+  } catch (error) {
+    throw toAutomationError(error);
+  }
+}
+
+const NATIVE_EVENT_NAMES: Record<AutomationEventName, string> = {
+  foregroundAppChanged: 'AutomationForegroundAppChanged',
+  windowContentChanged: 'AutomationWindowContentChanged',
+};
+
+let emitter: NativeEventEmitter | null = null;
+
+export const nativeBackend: AutomationBackend = {
+  isServiceRunning: () =>
+    callNative(module => module.isAccessibilityServiceRunning()),
+  openAccessibilitySettings: () =>
+    callNative(module => module.openAccessibilitySettings()),
+  openApp: packageName => callNative(module => module.openApp(packageName)),
+  tap: (x, y, durationMs) => callNative(module => module.tap(x, y, durationMs)),
+  swipe: (startX, startY, endX, endY, durationMs) =>
+    callNative(module => module.swipe(startX, startY, endX, endY, durationMs)),
+  pasteText: text => callNative(module => module.pasteText(text)),
+  setText: (text, target, index, mode) =>
+    callNative(module => module.setText(text, target, index, mode)),
+  getForegroundApp: () => callNative(module => module.getForegroundApp()),
+  findNodes: query => callNative(module => module.findNodes(query)),
+  clickNode: (query, index) =>
+    callNative(module => module.clickNode(query, index)),
+  getWindowHierarchy: () => callNative(module => module.getWindowHierarchy()),
+  waitForWindowChange: timeoutMs =>
+    callNative(module => module.waitForWindowChange(timeoutMs)),
+  performGlobalAction: action =>
+    callNative(module => module.performGlobalAction(action)),
+  dispatchGesture: strokes =>
+    callNative(module => module.dispatchGesture(strokes)),
+  captureScreenshot: () => callNative(module => module.captureScreenshot()),
+  listInstalledApps: () => callNative(module => module.listInstalledApps()),
+  subscribe: (event, listener) => {
+    // 没有原生模块时不会有事件，订阅不报错，方便界面统一处理
+    if (!nativeModule) {
+      return () => {};
+    }
+    if (!emitter) {
+      emitter = new NativeEventEmitter(nativeModule);
+    }
+    const subscription = emitter.addListener(
+      NATIVE_EVENT_NAMES[event],
+      listener,
+    );
+    return () => subscription.remove();
+  },
+};
+
+let backend: AutomationBackend = nativeBackend;
+
+/**
+ * 切换自动化后端，之后的所有调用都发往新的后端
+ */
+export function setAutomationBackend(next: AutomationBackend) {
+  backend = next;
+}
+
+export function getAutomationBackend(): AutomationBackend {
+  return backend;
+}
+
 export async function isServiceRunning(): Promise<boolean> {
-  return ensureAvailable().isAccessibilityServiceRunning();
+  return backend.isServiceRunning();
+}
+
+export async function openAccessibilitySettings(): Promise<void> {
+  return backend.openAccessibilitySettings();
 }
 
-export async function openAccessibilitySettings(): Promise<boolean> {
-  return ensureAvailable().openAccessibilitySettings();
+export async function openApp(packageName: string): Promise<void> {
+  return backend.openApp(packageName);
 }
 
-export async function openApp(packageName: string): Promise<boolean> {
-  return ensureAvailable().openApp(packageName);
+/**
+ * 列出已安装的应用，用于查找 openApp 可以打开的包名
+ */
+export async function listInstalledApps(): Promise<InstalledApp[]> {
+  return backend.listInstalledApps();
 }
 
 export async function tap(
   x: number,
   y: number,
   durationMs = 80,
-): Promise<boolean> {
-  return ensureAvailable().tap(x, y, durationMs);
+): Promise<void> {
+  return backend.tap(x, y, durationMs);
 }
 
 export async function swipe(
@@ -53,10 +420,459 @@ export async function swipe(
   endX: number,
   endY: number,
   durationMs = 150,
-): Promise<boolean> {
-  return ensureAvailable().swipe(startX, startY, endX, endY, durationMs);
+): Promise<void> {
+  return backend.swipe(startX, startY, endX, endY, durationMs);
+}
+
+/** 长按默认按住的时间，系统长按阈值一般为 400-500 毫秒 */
+const DEFAULT_LONG_PRESS_MS = 800;
+
+/** 双击中两次点击的间隔，需要小于系统的双击超时（300 毫秒） */
+const DOUBLE_TAP_GAP_MS = 100;
+
+const DOUBLE_TAP_PRESS_MS = 40;
+
+/**
+ * 长按即按住时间更长的点击
+ */
+export async function longPress(
+  x: number,
+  y: number,
+  durationMs = DEFAULT_LONG_PRESS_MS,
+): Promise<void> {
+  return backend.tap(x, y, durationMs);
+}
+
+/**
+ * 双击：两次点击放在同一个手势里，避免桥接调用的延迟超过双击超时
+ */
+export async function doubleTap(x: number, y: number): Promise<void> {
+  const press = (startMs: number): GestureStroke => ({
+    points: [{ x, y }],
+    startMs,
+    durationMs: DOUBLE_TAP_PRESS_MS,
+  });
+  return backend.dispatchGesture([
+    press(0),
+    press(DOUBLE_TAP_PRESS_MS + DOUBLE_TAP_GAP_MS),
+  ]);
 }
 
-export async function pasteText(text: string): Promise<boolean> {
-  return ensureAvailable().pasteText(text);
+/**
+ * 单指沿折线滑动，例如图案解锁
+ */
+export async function gesturePath(
+  points: PixelPoint[],
+  durationMs = 600,
+): Promise<void> {
+  if (points.length === 0) {
+    throw new AutomationError('INVALID_ARGUMENT', '手势路径至少需要一个点');
+  }
+  return backend.dispatchGesture([{ points, startMs: 0, durationMs }]);
+}
+
+export type PinchOptions = {
+  /** 两指张开时的距离（像素） */
+  span?: number;
+  durationMs?: number;
+};
+
+const DEFAULT_PINCH_SPAN = 600;
+
+/** 两指并拢时保留的距离，太近会被系统识别为单指 */
+export const MIN_PINCH_SPAN = 80;
+
+const DEFAULT_PINCH_DURATION_MS = 400;
+
+/**
+ * 以 (x, y) 为中点水平放置两根手指，两指距离从 fromSpan 变为 toSpan
+ */
+function twoFingerStrokes(
+  x: number,
+  y: number,
+  fromSpan: number,
+  toSpan: number,
+  durationMs: number,
+): GestureStroke[] {
+  const finger = (side: 1 | -1): GestureStroke => ({
+    points: [
+      { x: x + (side * fromSpan) / 2, y },
+      { x: x + (side * toSpan) / 2, y },
+    ],
+    startMs: 0,
+    durationMs,
+  });
+  return [finger(-1), finger(1)];
+}
+
+/**
+ * 两指捏合（缩小）
+ */
+export async function pinch(
+  x: number,
+  y: number,
+  options: PinchOptions = {},
+): Promise<void> {
+  const { span = DEFAULT_PINCH_SPAN, durationMs = DEFAULT_PINCH_DURATION_MS } =
+    options;
+  return backend.dispatchGesture(
+    twoFingerStrokes(x, y, span, MIN_PINCH_SPAN, durationMs),
+  );
+}
+
+/**
+ * 两指张开（放大）
+ */
+export async function zoom(
+  x: number,
+  y: number,
+  options: PinchOptions = {},
+): Promise<void> {
+  const { span = DEFAULT_PINCH_SPAN, durationMs = DEFAULT_PINCH_DURATION_MS } =
+    options;
+  return backend.dispatchGesture(
+    twoFingerStrokes(x, y, MIN_PINCH_SPAN, span, durationMs),
+  );
+}
+
+export async function pasteText(text: string): Promise<void> {
+  return backend.pasteText(text);
+}
+
+export type SetTextOptions = {
+  /** 要输入的元素，不指定时使用获得焦点的输入框 */
+  target?: NodeQuery;
+  /** 多个元素匹配 target 时的序号 */
+  index?: number;
+  mode?: SetTextMode;
+};
+
+/**
+ * 在输入框中输入文字，不会覆盖剪贴板（需要粘贴时会恢复原内容）
+ * @returns 实际使用的输入方式
+ */
+export async function setText(
+  text: string,
+  options: SetTextOptions = {},
+): Promise<SetTextMethod> {
+  const { target = null, index = 0, mode = 'replace' } = options;
+  return backend.setText(text, target, index, mode);
+}
+
+export async function performGlobalAction(action: GlobalAction): Promise<void> {
+  return backend.performGlobalAction(action);
+}
+
+/** 返回上一页 */
+export async function back(): Promise<void> {
+  return backend.performGlobalAction('back');
+}
+
+/** 回到桌面 */
+export async function home(): Promise<void> {
+  return backend.performGlobalAction('home');
+}
+
+/** 打开最近任务 */
+export async function recents(): Promise<void> {
+  return backend.performGlobalAction('recents');
+}
+
+/** 下拉通知栏 */
+export async function openNotifications(): Promise<void> {
+  return backend.performGlobalAction('notifications');
+}
+
+/** 下拉快捷设置面板 */
+export async function openQuickSettings(): Promise<void> {
+  return backend.performGlobalAction('quickSettings');
+}
+
+/** 锁屏，需要 Android 9 及以上 */
+export async function lockScreen(): Promise<void> {
+  return backend.performGlobalAction('lockScreen');
+}
+
+/**
+ * 触发系统截屏，截图由系统保存到相册，需要 Android 9 及以上
+ */
+export async function takeScreenshotGlobal(): Promise<void> {
+  return backend.performGlobalAction('screenshot');
+}
+
+/**
+ * 截取当前屏幕，图片保存在应用缓存中，只保留最近 100 张
+ * 与 takeScreenshotGlobal 不同，不会出现系统截屏动画，也不会存入相册
+ * @returns 图片的文件 URI，可直接作为 Image 的 source
+ */
+export async function captureScreenshot(): Promise<string> {
+  return backend.captureScreenshot();
+}
+
+export type EventOptions = {
+  /** 连续事件只在安静 debounceMs 毫秒后通知最后一个，0 表示不合并 */
+  debounceMs?: number;
+};
+
+const DEFAULT_FOREGROUND_DEBOUNCE_MS = 200;
+
+/** 界面刷新时内容变化事件会连续出现 */
+const DEFAULT_CONTENT_DEBOUNCE_MS = 300;
+
+function subscribeDebounced<E extends AutomationEventName>(
+  event: E,
+  listener: (payload: AutomationEvents[E]) => void,
+  debounceMs: number,
+): () => void {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const unsubscribe = backend.subscribe(event, payload => {
+    if (debounceMs <= 0) {
+      listener(payload);
+      return;
+    }
+    if (timer) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(() => {
+      timer = null;
+      listener(payload);
+    }, debounceMs);
+  });
+  return () => {
+    if (timer) {
+      clearTimeout(timer);
+    }
+    unsubscribe();
+  };
+}
+
+/**
+ * 订阅前台应用变化，订阅的是当前的自动化后端，切换后端后需要重新订阅
+ * @returns 取消订阅的函数
+ */
+export function onForegroundAppChanged(
+  listener: (event: ForegroundAppEvent) => void,
+  { debounceMs = DEFAULT_FOREGROUND_DEBOUNCE_MS }: EventOptions = {},
+): () => void {
+  return subscribeDebounced('foregroundAppChanged', listener, debounceMs);
+}
+
+/**
+ * 订阅其他应用的窗口内容变化，例如列表加载完成、弹窗出现
+ * @returns 取消订阅的函数
+ */
+export function onWindowContentChanged(
+  listener: (event: WindowContentEvent) => void,
+  { debounceMs = DEFAULT_CONTENT_DEBOUNCE_MS }: EventOptions = {},
+): () => void {
+  return subscribeDebounced('windowContentChanged', listener, debounceMs);
+}
+
+/**
+ * 获取当前前台应用的包名，无法判断时返回 null
+ */
+export async function getForegroundApp(): Promise<string | null> {
+  return backend.getForegroundApp();
+}
+
+/**
+ * 获取当前窗口的无障碍树，用于检查界面和编写命令
+ */
+export async function getWindowHierarchy(): Promise<WindowNode | null> {
+  return backend.getWindowHierarchy();
+}
+
+export async function findNodes(query: NodeQuery): Promise<UiNode[]> {
+  return backend.findNodes(query);
+}
+
+/**
+ * 按序号或位置从多个匹配的元素中选出一个
+ */
+export function selectNode(
+  nodes: UiNode[],
+  selector: NodeSelector = {},
+): UiNode | null {
+  const ordered = [...nodes].sort(
+    (a, b) => a.bounds.top - b.bounds.top || a.bounds.left - b.bounds.left,
+  );
+  if (selector.position) {
+    const key: Record<NodePosition, (node: UiNode) => number> = {
+      top: node => node.bounds.top,
+      bottom: node => -node.bounds.bottom,
+      left: node => node.bounds.left,
+      right: node => -node.bounds.right,
+    };
+    const score = key[selector.position];
+    return ordered.reduce<UiNode | null>(
+      (best, node) => (!best || score(node) < score(best) ? node : best),
+      null,
+    );
+  }
+  return ordered[selector.index ?? 0] ?? null;
+}
+
+async function clickMatching(
+  query: NodeQuery,
+  selector: NodeSelector,
+): Promise<void> {
+  const node = selectNode(await backend.findNodes(query), selector);
+  if (!node) {
+    throw new AutomationError(
+      'NODE_NOT_FOUND',
+      `No element matches ${JSON.stringify(query)}`,
+    );
+  }
+  return backend.clickNode(query, node.index);
+}
+
+/**
+ * 点击文字或内容描述匹配的元素
+ * 没有匹配的元素时以 NODE_NOT_FOUND 拒绝
+ */
+export async function clickByText(
+  text: string,
+  selector: NodeSelector & { exact?: boolean } = {},
+): Promise<void> {
+  return clickMatching({ text, exact: selector.exact }, selector);
+}
+
+/**
+ * 点击资源 id 匹配的元素
+ * 没有匹配的元素时以 NODE_NOT_FOUND 拒绝
+ */
+export async function clickById(
+  id: string,
+  selector: NodeSelector = {},
+): Promise<void> {
+  return clickMatching({ id, exact: true }, selector);
+}
+
+export type WaitOptions = {
+  /** 最长等待时间，默认 10 秒 */
+  timeoutMs?: number;
+  /**
+   * 检查时机：poll 每隔 intervalMs 检查一次；
+   * event 在窗口内容变化时才重新检查，界面不动时不产生额外调用
+   */
+  mode?: 'poll' | 'event';
+  /** poll 模式的检查间隔 */
+  intervalMs?: number;
+  signal?: AbortSignal;
+};
+
+export const DEFAULT_WAIT_TIMEOUT_MS = 10000;
+const DEFAULT_POLL_INTERVAL_MS = 250;
+/** event 模式下单次等待的上限，保证能及时响应取消 */
+const MAX_EVENT_WAIT_MS = 1000;
+const DEFAULT_QUIET_MS = 500;
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done);
+  });
+}
+
+function waitFailure(signal: AbortSignal | undefined, timeoutMs: number) {
+  return signal?.aborted
+    ? new AutomationError('CANCELLED', 'Wait was cancelled')
+    : new AutomationError(
+        'TIMEOUT',
+        `Condition not met within ${timeoutMs} ms`,
+      );
+}
+
+/**
+ * 反复检查条件直到满足，超时或取消时以 TIMEOUT 或 CANCELLED 拒绝
+ */
+async function waitUntil(
+  check: () => Promise<boolean>,
+  options: WaitOptions,
+): Promise<void> {
+  const {
+    timeoutMs = DEFAULT_WAIT_TIMEOUT_MS,
+    mode = 'poll',
+    intervalMs = DEFAULT_POLL_INTERVAL_MS,
+    signal,
+  } = options;
+  const deadline = Date.now() + timeoutMs;
+  while (!signal?.aborted) {
+    if (await check()) {
+      return;
+    }
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      break;
+    }
+    if (mode === 'event') {
+      await backend.waitForWindowChange(Math.min(remaining, MAX_EVENT_WAIT_MS));
+    } else {
+      await sleep(Math.min(intervalMs, remaining), signal);
+    }
+  }
+  throw waitFailure(signal, timeoutMs);
+}
+
+/**
+ * 等待指定应用切到前台
+ */
+export async function waitForApp(
+  packageName: string,
+  options: WaitOptions = {},
+): Promise<void> {
+  return waitUntil(
+    async () => (await backend.getForegroundApp()) === packageName,
+    options,
+  );
+}
+
+/**
+ * 等待包含指定文字的元素出现，gone 为 true 时等待它消失
+ */
+export async function waitForText(
+  text: string,
+  options: WaitOptions & { gone?: boolean; exact?: boolean } = {},
+): Promise<void> {
+  const { gone = false, exact } = options;
+  return waitUntil(async () => {
+    const nodes = await backend.findNodes({ text, exact });
+    return gone ? nodes.length === 0 : nodes.length > 0;
+  }, options);
+}
+
+/**
+ * 等待界面停止变化：连续 quietMs 毫秒没有窗口变化事件
+ * 依赖窗口变化事件，mode 和 intervalMs 不起作用
+ */
+export async function waitForIdle(
+  options: Omit<WaitOptions, 'mode' | 'intervalMs'> & {
+    quietMs?: number;
+  } = {},
+): Promise<void> {
+  const {
+    timeoutMs = DEFAULT_WAIT_TIMEOUT_MS,
+    quietMs = DEFAULT_QUIET_MS,
+    signal,
+  } = options;
+  const deadline = Date.now() + timeoutMs;
+  while (!signal?.aborted) {
+    const remaining = deadline - Date.now();
+    if (remaining < quietMs) {
+      break;
+    }
+    if (!(await backend.waitForWindowChange(quietMs))) {
+      return;
+    }
+  }
+  throw waitFailure(signal, timeoutMs);
 }
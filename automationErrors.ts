@@ -0,0 +1,99 @@
+/**
+ * 自动化错误的说明
+ * 每个错误码对应一条给用户看的原因和建议的解决办法
+ */
+
+import { toAutomationError, type AutomationErrorCode } from './automation';
+
+export type AutomationErrorHelp = {
+  code: AutomationErrorCode;
+  message: string;
+  fix: string;
+};
+
+const ERROR_HELP: Record<
+  AutomationErrorCode,
+  Omit<AutomationErrorHelp, 'code'>
+> = {
+  UNAVAILABLE: {
+    message: '当前设备不支持自动化',
+    fix: '跨应用自动化依赖 Android 无障碍接口，请在 Android 手机上使用，或开启模拟运行',
+  },
+  SERVICE_NOT_RUNNING: {
+    message: '无障碍服务未开启',
+    fix: '点击“打开无障碍设置”，启用 XAIApp 自动化服务后返回',
+  },
+  APP_NOT_INSTALLED: {
+    message: '应用未安装',
+    fix: '确认应用已安装；也可以直接说包名，或为应用添加别名',
+  },
+  NODE_NOT_FOUND: {
+    message: '未在屏幕上找到目标元素',
+    fix: '确认目标已显示在屏幕上，可先用界面检查抓取界面核对文字或 id',
+  },
+  NO_FOCUSED_FIELD: {
+    message: '没有获得焦点的输入框',
+    fix: '先点击要输入的输入框，再说输入内容',
+  },
+  NOT_EDITABLE: {
+    message: '目标控件不可编辑',
+    fix: '换一个输入框，或先点击真正的输入区域',
+  },
+  PASTE_REJECTED: {
+    message: '输入框不支持直接输入，粘贴也被拒绝',
+    fix: '该应用限制了自动输入，请手动输入',
+  },
+  OUT_OF_BOUNDS: {
+    message: '坐标超出屏幕范围',
+    fix: '检查坐标是否在屏幕内，或改用相对位置（如“屏幕中间”）',
+  },
+  GESTURE_CANCELLED: {
+    message: '手势被打断',
+    fix: '执行期间不要触摸屏幕，然后重试',
+  },
+  GESTURE_REJECTED: {
+    message: '系统拒绝执行手势',
+    fix: '重新开启无障碍服务后重试',
+  },
+  UNSUPPORTED: {
+    message: '当前系统版本不支持该操作',
+    fix: '锁屏和系统截屏需要 Android 9 及以上，截图记录需要 Android 11 及以上',
+  },
+  INVALID_ARGUMENT: {
+    message: '命令参数无效',
+    fix: '检查命令格式，可参考命令说明',
+  },
+  ACTION_FAILED: {
+    message: '系统没有执行该操作',
+    fix: '确认目标应用在前台且界面没有弹窗，然后重试',
+  },
+  TIMEOUT: {
+    message: '等待超时',
+    fix: '界面加载较慢时可以加长等待时间，例如“最多 20 秒”',
+  },
+  CANCELLED: {
+    message: '已取消',
+    fix: '重新下达命令即可',
+  },
+  UNKNOWN: {
+    message: '执行失败',
+    fix: '请重试；多次失败时可重新开启无障碍服务',
+  },
+};
+
+/**
+ * 把任意异常转换为错误码和对应的说明
+ * 无法识别的异常保留原始信息，方便排查
+ */
+export function describeAutomationError(error: unknown): AutomationErrorHelp {
+  const { code, message } = toAutomationError(error);
+  const help = ERROR_HELP[code];
+  return {
+    code,
+    message:
+      code === 'UNKNOWN'
+        ? `${help.message}: ${message || '未知错误'}`
+        : help.message,
+    fix: help.fix,
+  };
+}
@@ -0,0 +1,272 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Image,
+  ScrollView,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  useColorScheme,
+  View,
+} from 'react-native';
+import tw from 'twrnc';
+import {
+  addUserAlias,
+  searchInstalledApps,
+  setInstalledApps,
+} from '../appResolver';
+import { listInstalledApps, type InstalledApp } from '../automation';
+import { describeAutomationError } from '../automationErrors';
+import type { Locale } from '../locale';
+
+interface AppPickerProps {
+  locale: Locale;
+  /** 把打开应用的命令填入手动输入框 */
+  onUseCommand: (command: string) => void;
+  disabled?: boolean;
+}
+
+/** 列表最多显示的应用数，搜索可以缩小范围 */
+const MAX_VISIBLE_APPS = 100;
+
+const OPEN_VERB: Record<Locale, string> = {
+  'zh-CN': '打开',
+  'en-US': 'open',
+};
+
+/**
+ * 应用选择组件
+ * 列出本机应用并支持按名称、拼音或包名搜索，选中后生成打开命令或添加别名
+ * 加载的列表同时交给应用名解析，说出桌面上的应用名即可打开
+ */
+export default function AppPicker({
+  locale,
+  onUseCommand,
+  disabled = false,
+}: AppPickerProps) {
+  const isDarkMode = useColorScheme() === 'dark';
+  const [apps, setApps] = useState<InstalledApp[] | null>(null);
+  const [keyword, setKeyword] = useState('');
+  const [selected, setSelected] = useState<InstalledApp | null>(null);
+  const [aliasName, setAliasName] = useState('');
+  const [statusText, setStatusText] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const matches = useMemo(
+    () => (apps ? searchInstalledApps(apps, keyword) : []),
+    [apps, keyword],
+  );
+
+  const handleLoad = async () => {
+    setLoading(true);
+    try {
+      const installed = await listInstalledApps();
+      setApps(installed);
+      setInstalledApps(installed);
+      setStatusText(`共 ${installed.length} 个应用`);
+    } catch (error) {
+      console.error('加载应用列表失败', error);
+      setStatusText(`加载失败：${describeAutomationError(error).message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    handleLoad();
+    // 只在首次显示时加载，之后由刷新按钮更新
+  }, []);
+
+  const handleSelect = (app: InstalledApp) => {
+    const same = selected?.packageName === app.packageName;
+    setSelected(same ? null : app);
+    setAliasName(same ? '' : app.label);
+  };
+
+  const handleAddAlias = async () => {
+    if (!selected || !aliasName.trim()) {
+      return;
+    }
+    try {
+      await addUserAlias(aliasName, selected.packageName);
+      setStatusText(`已添加别名：${aliasName.trim()} → ${selected.label}`);
+    } catch (error) {
+      console.error('保存别名失败', error);
+      setStatusText('保存别名失败');
+    }
+  };
+
+  const smallButton = (primary: boolean, inactive = false) =>
+    tw.style(
+      'rounded-lg px-3 py-1',
+      primary
+        ? isDarkMode
+          ? 'bg-indigo-500'
+          : 'bg-indigo-600'
+        : isDarkMode
+        ? 'bg-slate-600'
+        : 'bg-slate-200',
+      inactive ? 'opacity-70' : undefined,
+    );
+
+  const smallButtonText = (primary: boolean) =>
+    tw.style(
+      'text-xs font-semibold',
+      primary ? 'text-white' : isDarkMode ? 'text-slate-200' : 'text-slate-700',
+    );
+
+  const inputStyle = tw.style(
+    'rounded-xl px-3 py-2 text-base',
+    isDarkMode
+      ? 'bg-slate-800 text-white border border-slate-700'
+      : 'bg-white border border-slate-200 text-slate-900',
+  );
+
+  const renderRow = (app: InstalledApp) => (
+    <TouchableOpacity
+      key={app.packageName}
+      onPress={() => handleSelect(app)}
+      style={tw.style(
+        'flex-row items-center gap-2 py-1 rounded',
+        app.packageName === selected?.packageName
+          ? isDarkMode
+            ? 'bg-indigo-900/50'
+            : 'bg-indigo-100'
+          : undefined,
+        app.launchable ? undefined : 'opacity-50',
+      )}
+    >
+      {app.iconUri ? (
+        <Image source={{ uri: app.iconUri }} style={tw`w-6 h-6`} />
+      ) : (
+        <View style={tw`w-6 h-6`} />
+      )}
+      <Text
+        numberOfLines={1}
+        style={tw.style(
+          'flex-1 text-xs',
+          isDarkMode ? 'text-slate-300' : 'text-slate-700',
+        )}
+      >
+        {`${app.label}  ${app.packageName}${
+          app.launchable ? '' : '（无启动入口）'
+        }`}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const busy = disabled || loading;
+  const command = selected
+    ? `${OPEN_VERB[locale]} ${selected.packageName}`
+    : '';
+
+  return (
+    <View style={tw`gap-2`}>
+      <View style={tw`flex-row items-center justify-between`}>
+        <Text
+          style={tw.style(
+            'text-sm font-semibold',
+            isDarkMode ? 'text-slate-200' : 'text-slate-800',
+          )}
+        >
+          应用列表：
+        </Text>
+        <TouchableOpacity
+          disabled={busy}
+          onPress={handleLoad}
+          style={smallButton(false, busy)}
+        >
+          <Text style={smallButtonText(false)}>
+            {loading ? '加载中…' : '刷新'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+      {statusText ? (
+        <Text
+          style={tw.style(
+            'text-xs leading-5',
+            isDarkMode ? 'text-slate-400' : 'text-slate-500',
+          )}
+        >
+          {statusText}
+        </Text>
+      ) : null}
+
+      {apps && apps.length > 0 && (
+        <>
+          <TextInput
+            value={keyword}
+            onChangeText={setKeyword}
+            placeholder="搜索应用名、拼音或包名"
+            placeholderTextColor="#94a3b8"
+            autoCapitalize="none"
+            autoCorrect={false}
+            style={inputStyle}
+          />
+          <ScrollView
+            nestedScrollEnabled
+            style={tw.style(
+              'max-h-64 rounded-xl p-2',
+              isDarkMode ? 'bg-slate-700' : 'bg-slate-50',
+            )}
+          >
+            {matches.slice(0, MAX_VISIBLE_APPS).map(renderRow)}
+            {matches.length > MAX_VISIBLE_APPS && (
+              <Text
+                style={tw.style(
+                  'text-xs py-1',
+                  isDarkMode ? 'text-slate-400' : 'text-slate-500',
+                )}
+              >
+                {`还有 ${
+                  matches.length - MAX_VISIBLE_APPS
+                } 个应用，请输入关键字缩小范围`}
+              </Text>
+            )}
+          </ScrollView>
+        </>
+      )}
+
+      {/* 选中的应用 */}
+      {selected && (
+        <View
+          style={tw.style(
+            'rounded-xl p-3 gap-2',
+            isDarkMode ? 'bg-slate-700' : 'bg-slate-50',
+          )}
+        >
+          <Text
+            style={tw.style(
+              'text-sm font-semibold',
+              isDarkMode ? 'text-white' : 'text-slate-900',
+            )}
+          >
+            {selected.launchable ? command : `${selected.label} 没有启动入口`}
+          </Text>
+          <TextInput
+            value={aliasName}
+            onChangeText={setAliasName}
+            placeholder="别名，例如：酷安"
+            placeholderTextColor="#94a3b8"
+            style={inputStyle}
+          />
+          <View style={tw`flex-row justify-end gap-2`}>
+            <TouchableOpacity
+              disabled={disabled || !aliasName.trim()}
+              onPress={handleAddAlias}
+              style={smallButton(false, disabled || !aliasName.trim())}
+            >
+              <Text style={smallButtonText(false)}>添加别名</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              disabled={disabled || !selected.launchable}
+              onPress={() => onUseCommand(command)}
+              style={smallButton(true, disabled || !selected.launchable)}
+            >
+              <Text style={smallButtonText(true)}>填入命令</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
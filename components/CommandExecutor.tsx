@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import {
   Alert,
+  Image,
   Platform,
   ScrollView,
   Text,
@@ -11,30 +12,203 @@ import {
 } from 'react-native';
 import tw from 'twrnc';
 import {
+  AutomationError,
+  getForegroundApp,
   isServiceRunning,
+  nativeBackend,
+  onForegroundAppChanged,
   openAccessibilitySettings,
-  openApp as openTargetApp,
-  tap,
-  swipe,
-  pasteText,
+  setAutomationBackend,
 } from '../automation';
+import { SimulatedDevice } from '../simulatedDevice';
+import {
+  ActionQueue,
+  isStopCommand,
+  type ActionPriority,
+  type ActionQueueState,
+} from '../actionQueue';
+import {
+  parseCommand,
+  type IntentType,
+  type UnknownIntent,
+} from '../intentParser';
+import {
+  matchCommand,
+  SUGGESTION_THRESHOLD,
+  type CommandMatch,
+} from '../intentMatcher';
+import {
+  executeSteps,
+  type MacroProgress,
+  type StepScreenshots,
+} from '../intentExecutor';
+import { loadUserAliases } from '../appResolver';
+import type { Locale } from '../locale';
+import type { ScriptProgressStatus } from '../scriptInterpreter';
+import { evaluateCommand, parseConfirmationReply } from '../actionPolicy';
+import { getLlmConfig, parseWithLlm } from '../llmIntentParser';
+import {
+  answerSlot,
+  SLOT_TIMEOUT_MS,
+  startSlotDialog,
+  type SlotDialog,
+} from '../slotFilling';
+import AppPicker from './AppPicker';
+import HierarchyInspector from './HierarchyInspector';
+import LlmSettings from './LlmSettings';
+import MacroManager from './MacroManager';
+
+/**
+ * 一次语音识别结果
+ * id 每次识别递增，连续两次说出相同的话（例如 “确认”）也会重新触发
+ */
+export type Transcript = {
+  id: number;
+  text: string;
+  /** 识别引擎给出的置信度 */
+  confidence?: number;
+};
 
 interface CommandExecutorProps {
-  commandText: string;
+  transcript: Transcript | null;
+  /** 命令语法的语言，与语音识别语言一致 */
+  locale: Locale;
+  /** 追问缺少的参数后，请求语音组件开始录音 */
+  onRequestListening?: () => void;
 }
 
+type HistoryEntry = {
+  id: number;
+  time: string;
+  /** 该步骤对应的命令文字 */
+  command: string;
+  intentType?: IntentType;
+  message: string;
+  success: boolean;
+  /** 失败时建议的解决办法 */
+  fix?: string;
+  /** 宏内部步骤所属的宏名称 */
+  macro?: string;
+  /** 命令经过纠正时的匹配置信度 */
+  confidence?: number;
+  /** 模拟运行，未操作真实设备 */
+  dryRun?: boolean;
+  /** 开启执行前后截图时该步骤的截图 */
+  screenshots?: StepScreenshots;
+};
+
+const SCRIPT_STATUS_LABELS: Record<ScriptProgressStatus, string> = {
+  running: '运行中',
+  success: '完成',
+  failed: '失败',
+  retrying: '重试中',
+  cancelled: '已取消',
+};
+
+type PendingConfirmation = {
+  command: string;
+  match: CommandMatch;
+  reasons: string[];
+  recognitionConfidence?: number;
+};
+
+type PolicyOptions = {
+  /** 语音识别置信度，手动输入时为空 */
+  recognitionConfidence?: number;
+  /** 用户已经确认过的原因，再次出现时不再询问 */
+  approvedReasons?: string[];
+};
+
+/** 各语言的命令说明 */
+const COMMAND_HELP: Record<Locale, string> = {
+  'zh-CN':
+    '支持命令：打开/启动 [应用名或包名]、点击 [x,y / 50%,80% / 屏幕中间、右下角]、点击 [第二个 / 最下面的] “按钮文字”、点击 id [资源名]、长按/双击 [x,y / 屏幕中间]、放大/缩小 [位置]、画线 [x1,y1] 到 [x2,y2] 到 …、滑动 [x1,y1] 到 [x2,y2]、向上/下/左/右滑动 [一半]、输入/粘贴 [文本]、执行 [宏名称]、等待 [“文字” 出现/消失 / 微信打开 / 界面稳定] [最多 N 秒]、返回、回到桌面、最近任务、下拉通知栏、快捷设置、锁屏、截屏；说“停止”或“取消全部”可停止正在执行和排队的命令。坐标支持中文数字和“逗号”等口语写法，可用“然后/再/接着/并且”连接多个步骤。',
+  'en-US':
+    'Commands: open/launch [app], tap [x, y / 50%, 80% / the center, bottom right], tap [the second / the bottom] "button text", tap id [resource name], long press/double tap [x, y / the center], zoom in/out [at x, y], draw [x1, y1] to [x2, y2] to …, swipe [x1, y1] to [x2, y2], swipe up/down/left/right [halfway], type/paste [text], run [macro], wait for ["text" / WeChat to open / the screen to be idle] [up to N seconds], go back, go home, recent apps, open notifications, quick settings, lock the screen, take a screenshot; say "stop" or "cancel all" to stop running and queued commands. Coordinates can be spoken, e.g. "50 comma 80" or "50 percent", and "then / and then / and" join several steps.',
+};
+
+/** 多步命令中相邻步骤的可选间隔 */
+const STEP_DELAY_OPTIONS = [0, 300, 500, 1000, 2000];
+
+/** 模拟运行时使用的设备 */
+const simulatedDevice = new SimulatedDevice();
+
+/** 命令逐条排队执行，新命令不会打断正在执行的命令 */
+const actionQueue = new ActionQueue();
+
+const PRIORITY_LABELS: Record<ActionPriority, string> = {
+  high: '优先',
+  normal: '普通',
+  low: '低',
+};
+
 /**
  * 命令执行组件
  * 接收文字命令并执行相应的自动化操作
  */
-export default function CommandExecutor({ commandText }: CommandExecutorProps) {
+export default function CommandExecutor({
+  transcript,
+  locale,
+  onRequestListening,
+}: CommandExecutorProps) {
   const isDarkMode = useColorScheme() === 'dark';
   const [serviceEnabled, setServiceEnabled] = useState<boolean | null>(null);
+  // 由无障碍事件推送的前台应用包名
+  const [foregroundApp, setForegroundApp] = useState<string | null>(null);
   const [statusText, setStatusText] = useState('');
   const [busyAction, setBusyAction] = useState<string | null>(null);
-  const [executionHistory, setExecutionHistory] = useState<string[]>([]);
+  const [executionHistory, setExecutionHistory] = useState<HistoryEntry[]>(
+    [],
+  );
   const [manualCommand, setManualCommand] = useState('');
-  const lastCommandRef = useRef<string>('');
+  const [stepDelayMs, setStepDelayMs] = useState(500);
+  const lastTranscriptIdRef = useRef(0);
+  const historyIdRef = useRef(0);
+  const [scriptProgress, setScriptProgress] = useState<MacroProgress | null>(
+    null,
+  );
+  const [queueState, setQueueState] = useState<ActionQueueState>(
+    actionQueue.getState(),
+  );
+  // 置信度不足时给出的 “您是不是想说” 建议
+  const [suggestions, setSuggestions] = useState<CommandMatch[]>([]);
+  // 执行策略要求确认的命令
+  const [pendingConfirmation, setPendingConfirmation] =
+    useState<PendingConfirmation | null>(null);
+  // 模拟运行：命令发往模拟设备，不操作手机
+  const [dryRun, setDryRun] = useState(false);
+  // 每一步执行前后截图，附在执行历史中
+  const [captureScreens, setCaptureScreens] = useState(false);
+  // 执行历史中点开查看的截图
+  const [previewUri, setPreviewUri] = useState<string | null>(null);
+  // 命令缺少参数时的追问
+  const [slotDialog, setSlotDialog] = useState<SlotDialog | null>(null);
+  // 界面检查中加入宏的步骤
+  const [macroDraftStep, setMacroDraftStep] = useState<{
+    id: number;
+    text: string;
+  } | null>(null);
+
+  useEffect(() => {
+    loadUserAliases().catch(error =>
+      console.error('加载应用别名失败', error),
+    );
+  }, []);
+
+  useEffect(() => actionQueue.subscribe(setQueueState), []);
+
+  useEffect(() => {
+    if (dryRun) {
+      simulatedDevice.reset();
+    }
+    setAutomationBackend(dryRun ? simulatedDevice : nativeBackend);
+  }, [dryRun]);
+
+  useEffect(() => {
+    // 切换后端后重新订阅，模拟运行时显示模拟设备的前台应用
+    setForegroundApp(null);
+    return onForegroundAppChanged(event => setForegroundApp(event.packageName));
+  }, [dryRun]);
 
   const ensureAndroid = () => {
     if (Platform.OS !== 'android') {
@@ -84,108 +258,373 @@ export default function CommandExecutor({ commandText }: CommandExecutorProps) {
     }
   };
 
+  const appendHistory = useCallback(
+    (entry: Omit<HistoryEntry, 'id' | 'time'>) => {
+      historyIdRef.current += 1;
+      const id = historyIdRef.current;
+      const time = new Date().toLocaleTimeString();
+      setExecutionHistory(prev => [{ id, time, dryRun, ...entry }, ...prev]);
+    },
+    [dryRun],
+  );
+
   /**
-   * 解析并执行命令
+   * 把已经解析好的命令加入动作队列，轮到时经执行策略判断后执行、等待确认或拒绝
    */
-  const handleExecuteCommand = useCallback(async (command: string) => {
-    if (!ensureAndroid()) {
-      return;
-    }
-
-    if (!serviceEnabled) {
-      Alert.alert('提示', '请先开启无障碍服务');
-      return;
-    }
+  const executeMatch = useCallback(async (
+    command: string,
+    match: CommandMatch,
+    { recognitionConfidence, approvedReasons = [] }: PolicyOptions = {},
+  ) => {
+    /**
+     * 按轮到执行时的前台应用判断，排队期间前面的命令可能已经切换了应用
+     * @returns 是否可以执行
+     */
+    const passesPolicy = async () => {
+      const foregroundPackage = await getForegroundApp().catch(() => null);
+      const verdict = evaluateCommand(match.intents, {
+        recognitionConfidence,
+        // 只有纠正过关键字的命令才按匹配置信度判断
+        matchConfidence: match.text !== command ? match.confidence : 1,
+        foregroundPackage,
+        locale,
+        fromLlm: match.source === 'llm',
+      });
+      if (verdict.decision === 'refuse') {
+        const message = `已拒绝执行：${verdict.reasons.join('；')}`;
+        setStatusText(message);
+        appendHistory({ command: command.trim(), message, success: false });
+        return false;
+      }
+      if (
+        verdict.decision === 'confirm' &&
+        !verdict.reasons.every(reason => approvedReasons.includes(reason))
+      ) {
+        setPendingConfirmation({
+          command,
+          match,
+          reasons: verdict.reasons,
+          recognitionConfidence,
+        });
+        setStatusText('请确认是否执行该命令');
+        return false;
+      }
+      return true;
+    };
 
-    setBusyAction('execute');
-    const trimmedCommand = command.trim().toLowerCase();
+    const runSteps = async (signal: AbortSignal) => {
+      const { intents } = match;
+      const corrected = match.text !== command;
+      const results = await executeSteps(intents, {
+        stepDelayMs,
+        locale,
+        onStepResult: ({ intent, success, message, fix, macro, screenshots }) => {
+          appendHistory({
+            command: intent.span.text,
+            intentType: intent.type,
+            message,
+            success,
+            fix,
+            macro,
+            confidence: corrected && !macro ? match.confidence : undefined,
+            screenshots,
+          });
+          setStatusText(fix ? `${message}\n建议：${fix}` : message);
+        },
+        onScriptProgress: setScriptProgress,
+        signal,
+        captureScreenshots: captureScreens,
+      });
 
-    try {
-      let result = '';
-
-      // 解析命令类型
-      if (trimmedCommand.includes('打开') || trimmedCommand.includes('启动')) {
-        // 提取包名或应用名
-        const packageMatch = trimmedCommand.match(/打开\s*(\S+)|启动\s*(\S+)/);
-        if (packageMatch) {
-          const packageName = packageMatch[1] || packageMatch[2];
-          const opened = await openTargetApp(packageName);
-          result = opened
-            ? `已启动应用: ${packageName}`
-            : `未找到应用: ${packageName}`;
-        } else {
-          result = '无法识别应用名称，请使用格式：打开 com.example.app';
-        }
-      } else if (trimmedCommand.includes('点击')) {
-        // 提取坐标 (示例：点击 100,200)
-        const coordMatch = trimmedCommand.match(/点击\s*(\d+)\s*[,，]\s*(\d+)/);
-        if (coordMatch) {
-          const x = parseInt(coordMatch[1], 10);
-          const y = parseInt(coordMatch[2], 10);
-          await tap(x, y);
-          result = `已点击坐标: (${x}, ${y})`;
-        } else {
-          result = '无法识别坐标，请使用格式：点击 100,200';
-        }
-      } else if (trimmedCommand.includes('滑动')) {
-        // 提取滑动坐标 (示例：滑动 100,200 到 300,400)
-        const swipeMatch = trimmedCommand.match(
-          /滑动\s*(\d+)\s*[,，]\s*(\d+)\s+到\s+(\d+)\s*[,，]\s*(\d+)/,
+      const skipped = intents.length - results.length;
+      if (skipped > 0) {
+        const last = results[results.length - 1];
+        const message = signal.aborted
+          ? `已停止，跳过后续 ${skipped} 步`
+          : `第 ${results.length} 步失败，已跳过后续 ${skipped} 步`;
+        appendHistory({ command: command.trim(), message, success: false });
+        setStatusText(
+          `${last.message}（${message}）${last.fix ? `\n建议：${last.fix}` : ''}`,
         );
-        if (swipeMatch) {
-          const startX = parseInt(swipeMatch[1], 10);
-          const startY = parseInt(swipeMatch[2], 10);
-          const endX = parseInt(swipeMatch[3], 10);
-          const endY = parseInt(swipeMatch[4], 10);
-          await swipe(startX, startY, endX, endY);
-          result = `已滑动: (${startX}, ${startY}) -> (${endX}, ${endY})`;
-        } else {
-          result = '无法识别滑动坐标，请使用格式：滑动 100,200 到 300,400';
-        }
-      } else if (trimmedCommand.includes('输入') || trimmedCommand.includes('粘贴')) {
-        // 提取要输入的文本
-        const textMatch = trimmedCommand.match(/输入\s+(.+)|粘贴\s+(.+)/);
-        if (textMatch) {
-          const text = textMatch[1] || textMatch[2];
-          await pasteText(text);
-          result = `已输入文本: ${text}`;
-        } else {
-          result = '无法识别文本内容，请使用格式：输入 你好世界';
-        }
-      } else {
-        result = `无法识别命令: ${command}`;
       }
+    };
 
-      // 添加到执行历史
-      setExecutionHistory(prev => [
-        `[${new Date().toLocaleTimeString()}] ${command} -> ${result}`,
-        ...prev,
-      ]);
-      setStatusText(result);
+    try {
+      await actionQueue.enqueue(command.trim(), async signal => {
+        try {
+          if (await passesPolicy()) {
+            await runSteps(signal);
+          }
+        } finally {
+          setScriptProgress(null);
+        }
+      });
     } catch (error) {
+      if (error instanceof AutomationError && error.code === 'CANCELLED') {
+        appendHistory({
+          command: command.trim(),
+          message: '已取消，未开始执行',
+          success: false,
+        });
+        return;
+      }
       console.error('执行命令失败', error);
       const errorMsg = `执行失败: ${error instanceof Error ? error.message : '未知错误'}`;
       setStatusText(errorMsg);
-      setExecutionHistory(prev => [
-        `[${new Date().toLocaleTimeString()}] ${command} -> ${errorMsg}`,
-        ...prev,
-      ]);
+      appendHistory({ command, message: errorMsg, success: false });
+    }
+  }, [stepDelayMs, locale, captureScreens, appendHistory]);
+
+  /**
+   * 已开启大模型解析时先交给大模型，失败返回 null 以回退到规则解析
+   */
+  const parseCommandWithLlm = useCallback(async (
+    command: string,
+  ): Promise<CommandMatch | null> => {
+    const llmConfig = getLlmConfig();
+    if (!llmConfig.enabled) {
+      return null;
+    }
+    setBusyAction('parse');
+    setStatusText('正在用大模型解析…');
+    try {
+      const intents = await parseWithLlm(command, llmConfig);
+      // 与规则解析一样，无法识别的步骤不执行，只记录原因
+      const unknown = intents.filter(
+        (intent): intent is UnknownIntent => intent.type === 'Unknown',
+      );
+      unknown.forEach(intent =>
+        appendHistory({
+          command: intent.span.text,
+          intentType: intent.type,
+          message: `已跳过：${intent.hint ?? '无法识别的操作'}`,
+          success: false,
+        }),
+      );
+      const known = intents.filter(intent => intent.type !== 'Unknown');
+      if (known.length === 0) {
+        setStatusText('大模型没有给出可执行的操作，已改用规则解析');
+        return null;
+      }
+      return { text: command, intents: known, confidence: 1, source: 'llm' };
+    } catch (error) {
+      console.warn('大模型解析失败', error);
+      setStatusText(
+        `大模型解析失败，已改用规则解析：${error instanceof Error ? error.message : '未知错误'}`,
+      );
+      return null;
     } finally {
       setBusyAction(null);
     }
-  }, [serviceEnabled]);
+  }, [appendHistory]);
+
+  /**
+   * 追问缺少的参数，并请求语音组件录下回答
+   * @param hint 上一个回答无法识别时的提示
+   */
+  const askSlot = useCallback((dialog: SlotDialog, hint?: string) => {
+    setSlotDialog(dialog);
+    setStatusText(hint ? `${hint}。${dialog.prompt}` : dialog.prompt);
+    onRequestListening?.();
+  }, [onRequestListening]);
+
+  /**
+   * 解析命令，经执行策略判断后执行、等待确认或拒绝
+   * @param recognitionConfidence 语音识别置信度，手动输入时为空
+   */
+  const handleExecuteCommand = useCallback(async (
+    command: string,
+    recognitionConfidence?: number,
+  ) => {
+    // 模拟运行不依赖 Android 和无障碍服务
+    if (!dryRun && !ensureAndroid()) {
+      return;
+    }
+
+    if (!serviceEnabled && !dryRun) {
+      Alert.alert('提示', '请先开启无障碍服务');
+      return;
+    }
+
+    setSuggestions([]);
+    setPendingConfirmation(null);
+    setSlotDialog(null);
+    const llmMatch = await parseCommandWithLlm(command);
+    if (!llmMatch) {
+      const dialog = startSlotDialog(
+        command,
+        parseCommand(command, locale),
+        locale,
+      );
+      if (dialog) {
+        askSlot(dialog);
+        return;
+      }
+    }
+    const [best, ...alternatives] = llmMatch
+      ? [llmMatch]
+      : matchCommand(command, locale);
+    if (best.confidence < SUGGESTION_THRESHOLD) {
+      const candidates = [best, ...alternatives].filter(
+        match => match.confidence > 0 && match.text !== command,
+      );
+      if (candidates.length > 0) {
+        setSuggestions(candidates);
+        setStatusText('无法确定命令，请从下方建议中选择');
+        appendHistory({
+          command: command.trim(),
+          message: '置信度过低，未执行',
+          success: false,
+          confidence: best.confidence,
+        });
+        return;
+      }
+    }
+    // 没有识别出任何操作时直接给出提示，不经过执行策略和队列
+    const hints = best.intents.filter(
+      (intent): intent is UnknownIntent => intent.type === 'Unknown',
+    );
+    if (hints.length === best.intents.length) {
+      const message =
+        hints.find(intent => intent.hint)?.hint ?? `无法识别命令: ${command.trim()}`;
+      setStatusText(message);
+      appendHistory({
+        command: command.trim(),
+        intentType: 'Unknown',
+        message,
+        success: false,
+      });
+      return;
+    }
+
+    await executeMatch(command, best, { recognitionConfidence });
+  }, [serviceEnabled, dryRun, locale, appendHistory, executeMatch, parseCommandWithLlm, askSlot]);
+
+  const cancelSlotDialog = useCallback(() => {
+    if (!slotDialog) {
+      return;
+    }
+    setSlotDialog(null);
+    setStatusText('已取消');
+    appendHistory({
+      command: slotDialog.command.trim(),
+      message: '已取消追问',
+      success: false,
+    });
+  }, [slotDialog, appendHistory]);
+
+  /**
+   * 处理追问的回答：补全后执行、继续追问或取消
+   */
+  const handleSlotAnswer = useCallback(async (
+    answer: string,
+    recognitionConfidence?: number,
+  ) => {
+    if (!slotDialog) {
+      return;
+    }
+    const result = answerSlot(slotDialog, answer);
+    if (result.status === 'cancelled') {
+      cancelSlotDialog();
+      return;
+    }
+    if (result.status === 'asking') {
+      askSlot(result.dialog, result.hint);
+      return;
+    }
+    setSlotDialog(null);
+    await executeMatch(
+      result.command,
+      { text: result.command, intents: result.intents, confidence: 1 },
+      { recognitionConfidence },
+    );
+  }, [slotDialog, cancelSlotDialog, askSlot, executeMatch]);
+
+  /**
+   * 处理确认提示：点击按钮或说 “确认” / “取消”
+   */
+  const handleConfirmation = useCallback((accepted: boolean) => {
+    if (!pendingConfirmation) {
+      return;
+    }
+    setPendingConfirmation(null);
+    if (!accepted) {
+      setStatusText('已取消执行');
+      appendHistory({
+        command: pendingConfirmation.command.trim(),
+        message: '已取消执行',
+        success: false,
+      });
+      return;
+    }
+    // 轮到执行时仍会重新判断，只有出现新的原因才再次询问
+    executeMatch(pendingConfirmation.command, pendingConfirmation.match, {
+      recognitionConfidence: pendingConfirmation.recognitionConfidence,
+      approvedReasons: pendingConfirmation.reasons,
+    });
+  }, [pendingConfirmation, appendHistory, executeMatch]);
+
+  /**
+   * 停止正在执行的命令并清空队列，点击按钮或说 “停止” / “取消全部”
+   */
+  const handleStop = useCallback(() => {
+    const count = actionQueue.cancelAll();
+    setStatusText(count > 0 ? `已停止 ${count} 条命令` : '没有正在执行的命令');
+  }, []);
 
   useEffect(() => {
-    // 当接收到新的命令文本时，自动执行（避免重复执行相同命令）
-    if (commandText && commandText.trim() && commandText !== lastCommandRef.current) {
-      lastCommandRef.current = commandText;
-      handleExecuteCommand(commandText);
+    // 每次新的识别结果只处理一次；等待确认时先当作确认回复解析
+    if (!transcript || transcript.id === lastTranscriptIdRef.current) {
+      return;
+    }
+    lastTranscriptIdRef.current = transcript.id;
+    if (!transcript.text.trim()) {
+      return;
     }
-  }, [commandText, handleExecuteCommand]);
+    if (isStopCommand(transcript.text)) {
+      handleStop();
+      return;
+    }
+    if (slotDialog) {
+      handleSlotAnswer(transcript.text, transcript.confidence);
+      return;
+    }
+    const reply = pendingConfirmation
+      ? parseConfirmationReply(transcript.text)
+      : null;
+    if (reply) {
+      handleConfirmation(reply === 'confirm');
+      return;
+    }
+    handleExecuteCommand(transcript.text, transcript.confidence);
+  }, [transcript, slotDialog, pendingConfirmation, handleStop, handleSlotAnswer, handleConfirmation, handleExecuteCommand]);
+
+  useEffect(() => {
+    // 追问超时后放弃这条命令
+    if (!slotDialog) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      setSlotDialog(null);
+      setStatusText('等待回答超时，已取消');
+      appendHistory({
+        command: slotDialog.command.trim(),
+        message: '等待回答超时，已取消',
+        success: false,
+      });
+    }, SLOT_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [slotDialog, appendHistory]);
 
   const handleManualExecute = () => {
     if (manualCommand.trim()) {
-      handleExecuteCommand(manualCommand);
+      if (isStopCommand(manualCommand)) {
+        handleStop();
+      } else if (slotDialog) {
+        handleSlotAnswer(manualCommand);
+      } else {
+        handleExecuteCommand(manualCommand);
+      }
       setManualCommand('');
     }
   };
@@ -198,6 +637,7 @@ export default function CommandExecutor({ commandText }: CommandExecutorProps) {
   );
 
   const anyBusy = busyAction !== null;
+  const queueBusy = queueState.running !== null;
 
   return (
     <View
@@ -272,8 +712,230 @@ export default function CommandExecutor({ commandText }: CommandExecutorProps) {
                 ? '无障碍已开启，可直接下发指令。'
                 : '无障碍未开启，请在系统设置中打开。')}
         </Text>
+        {foregroundApp && (
+          <Text
+            style={tw.style(
+              'text-xs',
+              isDarkMode ? 'text-slate-400' : 'text-slate-500',
+            )}
+          >
+            {`前台应用：${foregroundApp}`}
+          </Text>
+        )}
+        {queueState.running && (
+          <View style={tw`flex-row items-center gap-2`}>
+            <Text
+              style={tw.style(
+                'flex-1 text-xs leading-5',
+                isDarkMode ? 'text-slate-400' : 'text-slate-500',
+              )}
+            >
+              {scriptProgress
+                ? `宏 ${scriptProgress.macro} · 第 ${scriptProgress.line} 行 · ${
+                    SCRIPT_STATUS_LABELS[scriptProgress.status]
+                  }${scriptProgress.message ? `：${scriptProgress.message}` : ''}`
+                : `正在执行：${queueState.running.label}`}
+            </Text>
+            <TouchableOpacity
+              onPress={handleStop}
+              style={tw.style(
+                'rounded-lg px-3 py-1',
+                isDarkMode ? 'bg-red-700' : 'bg-red-600',
+              )}
+            >
+              <Text style={tw`text-xs font-semibold text-white`}>
+                {queueState.pending.length > 0 ? '全部停止' : '停止'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+        {/* 排队等待的命令 */}
+        {queueState.pending.map((item, index) => (
+          <View key={item.id} style={tw`flex-row items-center gap-2`}>
+            <Text
+              numberOfLines={1}
+              style={tw.style(
+                'flex-1 text-xs leading-5',
+                isDarkMode ? 'text-slate-400' : 'text-slate-500',
+              )}
+            >
+              {`等待 ${index + 1} · ${PRIORITY_LABELS[item.priority]} · ${item.label}`}
+            </Text>
+            {item.priority !== 'high' && (
+              <TouchableOpacity
+                onPress={() => actionQueue.prioritize(item.id)}
+                style={tw.style(
+                  'rounded-lg px-3 py-1',
+                  isDarkMode ? 'bg-slate-700' : 'bg-slate-200',
+                )}
+              >
+                <Text
+                  style={tw.style(
+                    'text-xs font-semibold',
+                    isDarkMode ? 'text-slate-200' : 'text-slate-700',
+                  )}
+                >
+                  优先
+                </Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              onPress={() => actionQueue.cancel(item.id)}
+              style={tw.style(
+                'rounded-lg px-3 py-1',
+                isDarkMode ? 'bg-slate-700' : 'bg-slate-200',
+              )}
+            >
+              <Text
+                style={tw.style(
+                  'text-xs font-semibold',
+                  isDarkMode ? 'text-slate-200' : 'text-slate-700',
+                )}
+              >
+                移除
+              </Text>
+            </TouchableOpacity>
+          </View>
+        ))}
       </View>
 
+      {/* 您是不是想说 */}
+      {suggestions.length > 0 && (
+        <View style={tw`gap-2`}>
+          <Text
+            style={tw.style(
+              'text-sm font-semibold',
+              isDarkMode ? 'text-slate-200' : 'text-slate-800',
+            )}
+          >
+            您是不是想说：
+          </Text>
+          <View style={tw`flex-row flex-wrap gap-2`}>
+            {suggestions.map(suggestion => (
+              <TouchableOpacity
+                key={suggestion.text}
+                disabled={anyBusy}
+                onPress={() => handleExecuteCommand(suggestion.text)}
+                style={tw.style(
+                  'rounded-lg px-3 py-1',
+                  isDarkMode ? 'bg-indigo-500' : 'bg-indigo-600',
+                  anyBusy ? 'opacity-70' : undefined,
+                )}
+              >
+                <Text style={tw`text-xs font-semibold text-white`}>
+                  {`${suggestion.text}（${Math.round(
+                    suggestion.confidence * 100,
+                  )}%）`}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      )}
+
+      {/* 等待确认 */}
+      {pendingConfirmation && (
+        <View
+          style={tw.style(
+            'rounded-xl p-3 gap-2',
+            isDarkMode ? 'bg-amber-900/30' : 'bg-amber-50',
+          )}
+        >
+          <Text
+            style={tw.style(
+              'text-sm font-semibold',
+              isDarkMode ? 'text-amber-200' : 'text-amber-800',
+            )}
+          >
+            {`需要确认：${pendingConfirmation.match.text.trim()}`}
+          </Text>
+          <Text
+            style={tw.style(
+              'text-xs leading-5',
+              isDarkMode ? 'text-amber-300' : 'text-amber-700',
+            )}
+          >
+            {`${pendingConfirmation.reasons.join('；')}。也可以说 “确认” 或 “取消”。`}
+          </Text>
+          <View style={tw`flex-row justify-end gap-2`}>
+            <TouchableOpacity
+              onPress={() => handleConfirmation(false)}
+              style={tw.style(
+                'rounded-lg px-3 py-1',
+                isDarkMode ? 'bg-slate-600' : 'bg-slate-200',
+              )}
+            >
+              <Text
+                style={tw.style(
+                  'text-xs font-semibold',
+                  isDarkMode ? 'text-slate-200' : 'text-slate-700',
+                )}
+              >
+                取消
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              disabled={anyBusy}
+              onPress={() => handleConfirmation(true)}
+              style={tw.style(
+                'rounded-lg px-3 py-1',
+                isDarkMode ? 'bg-indigo-500' : 'bg-indigo-600',
+                anyBusy ? 'opacity-70' : undefined,
+              )}
+            >
+              <Text style={tw`text-xs font-semibold text-white`}>确认</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {/* 追问缺少的参数 */}
+      {slotDialog && (
+        <View
+          style={tw.style(
+            'rounded-xl p-3 gap-2',
+            isDarkMode ? 'bg-sky-900/30' : 'bg-sky-50',
+          )}
+        >
+          <Text
+            style={tw.style(
+              'text-sm font-semibold',
+              isDarkMode ? 'text-sky-200' : 'text-sky-800',
+            )}
+          >
+            {slotDialog.prompt}
+          </Text>
+          <Text
+            style={tw.style(
+              'text-xs leading-5',
+              isDarkMode ? 'text-sky-300' : 'text-sky-700',
+            )}
+          >
+            {`直接说出或在下方输入回答，说 “取消” 放弃。${Math.round(
+              SLOT_TIMEOUT_MS / 1000,
+            )} 秒内没有回答将自动取消。`}
+          </Text>
+          <View style={tw`flex-row justify-end gap-2`}>
+            <TouchableOpacity
+              onPress={cancelSlotDialog}
+              style={tw.style(
+                'rounded-lg px-3 py-1',
+                isDarkMode ? 'bg-slate-600' : 'bg-slate-200',
+              )}
+            >
+              <Text
+                style={tw.style(
+                  'text-xs font-semibold',
+                  isDarkMode ? 'text-slate-200' : 'text-slate-700',
+                )}
+              >
+                取消
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
       {/* 手动输入命令 */}
       <View style={tw`gap-2`}>
         <Text
@@ -288,7 +950,9 @@ export default function CommandExecutor({ commandText }: CommandExecutorProps) {
           <TextInput
             value={manualCommand}
             onChangeText={setManualCommand}
-            placeholder="例如：打开 com.tencent.mm"
+            placeholder={
+              locale === 'en-US' ? '例如：open WeChat' : '例如：打开微信'
+            }
             placeholderTextColor={isDarkMode ? '#94a3b8' : '#94a3b8'}
             style={inputStyle}
             editable={!anyBusy}
@@ -313,10 +977,166 @@ export default function CommandExecutor({ commandText }: CommandExecutorProps) {
             isDarkMode ? 'text-slate-400' : 'text-slate-500',
           )}
         >
-          支持命令：打开/启动 [包名]、点击 [x,y]、滑动 [x1,y1] 到 [x2,y2]、输入/粘贴 [文本]
+          {COMMAND_HELP[locale]}
+        </Text>
+      </View>
+
+      {/* 多步命令间隔 */}
+      <View style={tw`gap-2`}>
+        <Text
+          style={tw.style(
+            'text-sm font-semibold',
+            isDarkMode ? 'text-slate-200' : 'text-slate-800',
+          )}
+        >
+          步骤间隔：
         </Text>
+        <View style={tw`flex-row flex-wrap gap-2`}>
+          {STEP_DELAY_OPTIONS.map(delay => (
+            <TouchableOpacity
+              key={delay}
+              disabled={anyBusy}
+              onPress={() => setStepDelayMs(delay)}
+              style={tw.style(
+                'rounded-lg px-3 py-1',
+                delay === stepDelayMs
+                  ? isDarkMode
+                    ? 'bg-indigo-500'
+                    : 'bg-indigo-600'
+                  : isDarkMode
+                    ? 'bg-slate-700'
+                    : 'bg-slate-200',
+              )}
+            >
+              <Text
+                style={tw.style(
+                  'text-xs font-semibold',
+                  delay === stepDelayMs
+                    ? 'text-white'
+                    : isDarkMode
+                      ? 'text-slate-200'
+                      : 'text-slate-700',
+                )}
+              >
+                {delay} ms
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
       </View>
 
+      {/* 模拟运行 */}
+      <View style={tw`flex-row items-center justify-between gap-2`}>
+        <Text
+          style={tw.style(
+            'flex-1 text-xs leading-5',
+            isDarkMode ? 'text-slate-400' : 'text-slate-500',
+          )}
+        >
+          模拟运行：命令只在模拟设备上执行并记录，不会操作手机。
+        </Text>
+        <TouchableOpacity
+          disabled={anyBusy || queueBusy}
+          onPress={() => setDryRun(!dryRun)}
+          style={tw.style(
+            'rounded-lg px-3 py-1',
+            dryRun
+              ? isDarkMode
+                ? 'bg-indigo-500'
+                : 'bg-indigo-600'
+              : isDarkMode
+                ? 'bg-slate-700'
+                : 'bg-slate-200',
+            anyBusy || queueBusy ? 'opacity-70' : undefined,
+          )}
+        >
+          <Text
+            style={tw.style(
+              'text-xs font-semibold',
+              dryRun
+                ? 'text-white'
+                : isDarkMode
+                  ? 'text-slate-200'
+                  : 'text-slate-700',
+            )}
+          >
+            {dryRun ? '已开启' : '已关闭'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* 执行前后截图 */}
+      <View style={tw`flex-row items-center justify-between gap-2`}>
+        <Text
+          style={tw.style(
+            'flex-1 text-xs leading-5',
+            isDarkMode ? 'text-slate-400' : 'text-slate-500',
+          )}
+        >
+          执行前后截图：每一步执行前后截取屏幕，附在执行历史中，需要 Android 11 及以上。
+        </Text>
+        <TouchableOpacity
+          onPress={() => setCaptureScreens(!captureScreens)}
+          style={tw.style(
+            'rounded-lg px-3 py-1',
+            captureScreens
+              ? isDarkMode
+                ? 'bg-indigo-500'
+                : 'bg-indigo-600'
+              : isDarkMode
+                ? 'bg-slate-700'
+                : 'bg-slate-200',
+          )}
+        >
+          <Text
+            style={tw.style(
+              'text-xs font-semibold',
+              captureScreens
+                ? 'text-white'
+                : isDarkMode
+                  ? 'text-slate-200'
+                  : 'text-slate-700',
+            )}
+          >
+            {captureScreens ? '已开启' : '已关闭'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* 大模型解析 */}
+      <LlmSettings disabled={anyBusy} />
+
+      {/* 宏 */}
+      <MacroManager
+        historyCommands={executionHistory
+          .filter(
+            entry =>
+              entry.success && !entry.macro && entry.intentType !== 'RunMacro',
+          )
+          .map(entry => entry.command)
+          .reverse()}
+        onRunMacro={name => handleExecuteCommand(`执行 ${name}`)}
+        draftStep={macroDraftStep}
+        disabled={anyBusy}
+      />
+
+      {/* 界面检查 */}
+      <HierarchyInspector
+        locale={locale}
+        onUseCommand={setManualCommand}
+        onAddMacroStep={text =>
+          setMacroDraftStep(prev => ({ id: (prev?.id ?? 0) + 1, text }))
+        }
+        disabled={anyBusy}
+      />
+
+      {/* 应用列表 */}
+      <AppPicker
+        locale={locale}
+        onUseCommand={setManualCommand}
+        disabled={anyBusy}
+      />
+
       {/* 执行历史 */}
       {executionHistory.length > 0 && (
         <View style={tw`gap-2`}>
@@ -328,22 +1148,80 @@ export default function CommandExecutor({ commandText }: CommandExecutorProps) {
           >
             执行历史：
           </Text>
+          {previewUri && (
+            <TouchableOpacity onPress={() => setPreviewUri(null)}>
+              <Image
+                source={{ uri: previewUri }}
+                resizeMode="contain"
+                style={tw`w-full h-96 rounded-xl`}
+              />
+              <Text
+                style={tw.style(
+                  'text-xs text-center',
+                  isDarkMode ? 'text-slate-400' : 'text-slate-500',
+                )}
+              >
+                点击图片关闭
+              </Text>
+            </TouchableOpacity>
+          )}
           <ScrollView
             style={tw.style(
               'max-h-40 rounded-xl p-3',
               isDarkMode ? 'bg-slate-700' : 'bg-slate-50',
             )}
           >
-            {executionHistory.map((item, index) => (
-              <Text
-                key={index}
-                style={tw.style(
-                  'text-xs leading-5 mb-1',
-                  isDarkMode ? 'text-slate-300' : 'text-slate-700',
+            {executionHistory.map(item => (
+              <View key={item.id} style={tw`mb-1 gap-1`}>
+                <Text
+                  style={tw.style(
+                    'text-xs leading-5',
+                    item.success
+                      ? isDarkMode
+                        ? 'text-slate-300'
+                        : 'text-slate-700'
+                      : isDarkMode
+                        ? 'text-red-300'
+                        : 'text-red-700',
+                  )}
+                >
+                  {`[${item.time}] ${item.dryRun ? '〔模拟〕' : ''}${
+                    item.macro ? `〔${item.macro}〕` : ''
+                  }${item.command} -> ${item.message}${
+                    item.confidence !== undefined
+                      ? `（置信度 ${Math.round(item.confidence * 100)}%）`
+                      : ''
+                  }${item.fix ? `\n  建议：${item.fix}` : ''}`}
+                </Text>
+                {/* 模拟运行的截图只是占位地址，无法显示 */}
+                {item.screenshots && !item.dryRun && (
+                  <View style={tw`flex-row gap-2`}>
+                    {(['before', 'after'] as const).map(key => {
+                      const uri = item.screenshots?.[key];
+                      return uri ? (
+                        <TouchableOpacity
+                          key={key}
+                          onPress={() => setPreviewUri(uri)}
+                        >
+                          <Image
+                            source={{ uri }}
+                            resizeMode="cover"
+                            style={tw`w-12 h-20 rounded`}
+                          />
+                          <Text
+                            style={tw.style(
+                              'text-xs text-center',
+                              isDarkMode ? 'text-slate-400' : 'text-slate-500',
+                            )}
+                          >
+                            {key === 'before' ? '执行前' : '执行后'}
+                          </Text>
+                        </TouchableOpacity>
+                      ) : null;
+                    })}
+                  </View>
                 )}
-              >
-                {item}
-              </Text>
+              </View>
             ))}
           </ScrollView>
         </View>
@@ -0,0 +1,267 @@
+import React, { useMemo, useState } from 'react';
+import {
+  ScrollView,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  useColorScheme,
+  View,
+} from 'react-native';
+import tw from 'twrnc';
+import { getWindowHierarchy, type WindowNode } from '../automation';
+import type { Locale } from '../locale';
+import {
+  commandForNode,
+  describeNode,
+  flattenHierarchy,
+  searchHierarchy,
+  type FlatWindowNode,
+} from '../windowHierarchy';
+
+interface HierarchyInspectorProps {
+  locale: Locale;
+  /** 把生成的命令填入手动输入框 */
+  onUseCommand: (command: string) => void;
+  /** 把生成的命令追加到宏编辑区 */
+  onAddMacroStep: (step: string) => void;
+  disabled?: boolean;
+}
+
+/** 延迟抓取，留出时间切换到要检查的应用 */
+const CAPTURE_DELAY_MS = 3000;
+
+/** 列表最多显示的节点数，搜索可以缩小范围 */
+const MAX_VISIBLE_NODES = 200;
+
+/**
+ * 界面检查组件
+ * 抓取当前窗口的无障碍树，支持搜索，选中节点后生成点击命令或宏步骤
+ */
+export default function HierarchyInspector({
+  locale,
+  onUseCommand,
+  onAddMacroStep,
+  disabled = false,
+}: HierarchyInspectorProps) {
+  const isDarkMode = useColorScheme() === 'dark';
+  const [root, setRoot] = useState<WindowNode | null>(null);
+  const [keyword, setKeyword] = useState('');
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const [statusText, setStatusText] = useState('');
+  const [capturing, setCapturing] = useState(false);
+
+  const flat = useMemo(() => (root ? flattenHierarchy(root) : []), [root]);
+  const matches = useMemo(
+    () => searchHierarchy(flat, keyword),
+    [flat, keyword],
+  );
+  const selected = flat.find(item => item.path === selectedPath) ?? null;
+  const command = selected ? commandForNode(selected.node, flat, locale) : '';
+
+  const handleCapture = async (delayMs: number) => {
+    setCapturing(true);
+    setSelectedPath(null);
+    try {
+      if (delayMs > 0) {
+        setStatusText(`${delayMs / 1000} 秒后抓取，请切换到要检查的应用…`);
+        await new Promise<void>(resolve => setTimeout(resolve, delayMs));
+      }
+      const hierarchy = await getWindowHierarchy();
+      setRoot(hierarchy);
+      setStatusText(
+        hierarchy
+          ? `已抓取 ${hierarchy.packageName ?? '未知应用'} 的界面`
+          : '没有可检查的窗口',
+      );
+    } catch (error) {
+      console.error('抓取界面失败', error);
+      setStatusText(
+        `抓取失败: ${error instanceof Error ? error.message : '未知错误'}`,
+      );
+    } finally {
+      setCapturing(false);
+    }
+  };
+
+  const smallButton = (primary: boolean, inactive = false) =>
+    tw.style(
+      'rounded-lg px-3 py-1',
+      primary
+        ? isDarkMode
+          ? 'bg-indigo-500'
+          : 'bg-indigo-600'
+        : isDarkMode
+        ? 'bg-slate-600'
+        : 'bg-slate-200',
+      inactive ? 'opacity-70' : undefined,
+    );
+
+  const smallButtonText = (primary: boolean) =>
+    tw.style(
+      'text-xs font-semibold',
+      primary ? 'text-white' : isDarkMode ? 'text-slate-200' : 'text-slate-700',
+    );
+
+  const renderRow = ({ node, depth, path }: FlatWindowNode) => (
+    <TouchableOpacity
+      key={path}
+      onPress={() => setSelectedPath(path === selectedPath ? null : path)}
+      style={[
+        tw.style(
+          'py-1 rounded',
+          path === selectedPath
+            ? isDarkMode
+              ? 'bg-indigo-900/50'
+              : 'bg-indigo-100'
+            : undefined,
+        ),
+        { paddingLeft: Math.min(depth, 12) * 8 },
+      ]}
+    >
+      <Text
+        numberOfLines={1}
+        style={tw.style(
+          'text-xs',
+          isDarkMode ? 'text-slate-300' : 'text-slate-700',
+        )}
+      >
+        {describeNode(node)}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const busy = disabled || capturing;
+
+  return (
+    <View style={tw`gap-2`}>
+      <View style={tw`flex-row items-center justify-between`}>
+        <Text
+          style={tw.style(
+            'text-sm font-semibold',
+            isDarkMode ? 'text-slate-200' : 'text-slate-800',
+          )}
+        >
+          界面检查：
+        </Text>
+        <View style={tw`flex-row gap-2`}>
+          <TouchableOpacity
+            disabled={busy}
+            onPress={() => handleCapture(CAPTURE_DELAY_MS)}
+            style={smallButton(false, busy)}
+          >
+            <Text style={smallButtonText(false)}>
+              {CAPTURE_DELAY_MS / 1000} 秒后抓取
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            disabled={busy}
+            onPress={() => handleCapture(0)}
+            style={smallButton(true, busy)}
+          >
+            <Text style={smallButtonText(true)}>抓取</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+      {statusText ? (
+        <Text
+          style={tw.style(
+            'text-xs leading-5',
+            isDarkMode ? 'text-slate-400' : 'text-slate-500',
+          )}
+        >
+          {statusText}
+        </Text>
+      ) : null}
+
+      {root && (
+        <>
+          <TextInput
+            value={keyword}
+            onChangeText={setKeyword}
+            placeholder="搜索文字、id 或类名"
+            placeholderTextColor="#94a3b8"
+            autoCapitalize="none"
+            autoCorrect={false}
+            style={tw.style(
+              'rounded-xl px-3 py-2 text-base',
+              isDarkMode
+                ? 'bg-slate-800 text-white border border-slate-700'
+                : 'bg-white border border-slate-200 text-slate-900',
+            )}
+          />
+          <ScrollView
+            nestedScrollEnabled
+            style={tw.style(
+              'max-h-64 rounded-xl p-2',
+              isDarkMode ? 'bg-slate-700' : 'bg-slate-50',
+            )}
+          >
+            {matches.slice(0, MAX_VISIBLE_NODES).map(renderRow)}
+            {matches.length > MAX_VISIBLE_NODES && (
+              <Text
+                style={tw.style(
+                  'text-xs py-1',
+                  isDarkMode ? 'text-slate-400' : 'text-slate-500',
+                )}
+              >
+                {`还有 ${
+                  matches.length - MAX_VISIBLE_NODES
+                } 个节点，请输入关键字缩小范围`}
+              </Text>
+            )}
+          </ScrollView>
+        </>
+      )}
+
+      {/* 选中节点 */}
+      {selected && (
+        <View
+          style={tw.style(
+            'rounded-xl p-3 gap-2',
+            isDarkMode ? 'bg-slate-700' : 'bg-slate-50',
+          )}
+        >
+          <Text
+            style={tw.style(
+              'text-xs leading-5',
+              isDarkMode ? 'text-slate-300' : 'text-slate-600',
+            )}
+          >
+            {[
+              `类名：${selected.node.className ?? '-'}`,
+              `文字：${selected.node.text ?? '-'}`,
+              `描述：${selected.node.contentDescription ?? '-'}`,
+              `id：${selected.node.viewId ?? '-'}`,
+              `应用：${selected.node.packageName ?? '-'}`,
+              `位置：(${selected.node.bounds.left}, ${selected.node.bounds.top}) - (${selected.node.bounds.right}, ${selected.node.bounds.bottom})`,
+            ].join('\n')}
+          </Text>
+          <Text
+            style={tw.style(
+              'text-sm font-semibold',
+              isDarkMode ? 'text-white' : 'text-slate-900',
+            )}
+          >
+            {command}
+          </Text>
+          <View style={tw`flex-row justify-end gap-2`}>
+            <TouchableOpacity
+              disabled={disabled}
+              onPress={() => onAddMacroStep(command)}
+              style={smallButton(false, disabled)}
+            >
+              <Text style={smallButtonText(false)}>加入宏</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              disabled={disabled}
+              onPress={() => onUseCommand(command)}
+              style={smallButton(true, disabled)}
+            >
+              <Text style={smallButtonText(true)}>填入命令</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
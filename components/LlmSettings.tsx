@@ -0,0 +1,205 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  useColorScheme,
+  View,
+} from 'react-native';
+import tw from 'twrnc';
+import {
+  getLlmConfig,
+  loadLlmConfig,
+  saveLlmConfig,
+  type LlmParserConfig,
+} from '../llmIntentParser';
+
+interface LlmSettingsProps {
+  disabled?: boolean;
+}
+
+type Draft = {
+  endpoint: string;
+  model: string;
+  timeoutMs: string;
+};
+
+const toDraft = (config: LlmParserConfig): Draft => ({
+  endpoint: config.endpoint,
+  model: config.model,
+  timeoutMs: String(config.timeoutMs),
+});
+
+/**
+ * 大模型解析设置
+ * 开启后命令先交给 OpenAI 兼容接口解析，失败时回退到规则解析
+ */
+export default function LlmSettings({ disabled = false }: LlmSettingsProps) {
+  const isDarkMode = useColorScheme() === 'dark';
+  const [config, setConfig] = useState<LlmParserConfig>(getLlmConfig());
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  useEffect(() => {
+    loadLlmConfig()
+      .then(setConfig)
+      .catch(error => console.error('加载大模型设置失败', error));
+  }, []);
+
+  const handleToggle = async () => {
+    try {
+      setConfig(await saveLlmConfig({ enabled: !config.enabled }));
+    } catch (error) {
+      console.error('保存大模型设置失败', error);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft) {
+      return;
+    }
+    const timeoutMs = Number(draft.timeoutMs);
+    if (!draft.endpoint.trim() || !/^https?:\/\//.test(draft.endpoint.trim())) {
+      Alert.alert('保存失败', '接口地址需要以 http:// 或 https:// 开头');
+      return;
+    }
+    if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) {
+      Alert.alert('保存失败', '超时时间需要是正数（毫秒）');
+      return;
+    }
+    try {
+      setConfig(
+        await saveLlmConfig({
+          endpoint: draft.endpoint.trim(),
+          model: draft.model.trim(),
+          timeoutMs: Math.round(timeoutMs),
+        }),
+      );
+      setDraft(null);
+    } catch (error) {
+      Alert.alert(
+        '保存失败',
+        error instanceof Error ? error.message : '未知错误',
+      );
+    }
+  };
+
+  const inputStyle = tw.style(
+    'rounded-xl px-3 py-2 text-base',
+    isDarkMode
+      ? 'bg-slate-800 text-white border border-slate-700'
+      : 'bg-white border border-slate-200 text-slate-900',
+  );
+
+  const smallButton = (primary: boolean) =>
+    tw.style(
+      'rounded-lg px-3 py-1',
+      primary
+        ? isDarkMode
+          ? 'bg-indigo-500'
+          : 'bg-indigo-600'
+        : isDarkMode
+        ? 'bg-slate-600'
+        : 'bg-slate-200',
+      disabled ? 'opacity-70' : undefined,
+    );
+
+  const smallButtonText = (primary: boolean) =>
+    tw.style(
+      'text-xs font-semibold',
+      primary ? 'text-white' : isDarkMode ? 'text-slate-200' : 'text-slate-700',
+    );
+
+  return (
+    <View style={tw`gap-2`}>
+      <View style={tw`flex-row items-center justify-between`}>
+        <Text
+          style={tw.style(
+            'text-sm font-semibold',
+            isDarkMode ? 'text-slate-200' : 'text-slate-800',
+          )}
+        >
+          大模型解析：
+        </Text>
+        <View style={tw`flex-row gap-2`}>
+          <TouchableOpacity
+            disabled={disabled}
+            onPress={() => setDraft(draft ? null : toDraft(config))}
+            style={smallButton(false)}
+          >
+            <Text style={smallButtonText(false)}>
+              {draft ? '收起' : '设置'}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            disabled={disabled}
+            onPress={handleToggle}
+            style={smallButton(config.enabled)}
+          >
+            <Text style={smallButtonText(config.enabled)}>
+              {config.enabled ? '已开启' : '已关闭'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+      <Text
+        numberOfLines={1}
+        style={tw.style(
+          'text-xs leading-5',
+          isDarkMode ? 'text-slate-400' : 'text-slate-500',
+        )}
+      >
+        {config.model} · {config.endpoint} · 超时 {config.timeoutMs} ms
+      </Text>
+
+      {/* 编辑区 */}
+      {draft && (
+        <View
+          style={tw.style(
+            'rounded-xl p-3 gap-2',
+            isDarkMode ? 'bg-slate-700' : 'bg-slate-50',
+          )}
+        >
+          <TextInput
+            value={draft.endpoint}
+            onChangeText={endpoint => setDraft({ ...draft, endpoint })}
+            placeholder="接口地址，例如：http://llm.local:8080/v1"
+            placeholderTextColor="#94a3b8"
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+            style={inputStyle}
+          />
+          <TextInput
+            value={draft.model}
+            onChangeText={model => setDraft({ ...draft, model })}
+            placeholder="模型名称"
+            placeholderTextColor="#94a3b8"
+            autoCapitalize="none"
+            autoCorrect={false}
+            style={inputStyle}
+          />
+          <TextInput
+            value={draft.timeoutMs}
+            onChangeText={timeoutMs => setDraft({ ...draft, timeoutMs })}
+            placeholder="超时时间（毫秒）"
+            placeholderTextColor="#94a3b8"
+            keyboardType="number-pad"
+            style={inputStyle}
+          />
+          <View style={tw`flex-row justify-end gap-2`}>
+            <TouchableOpacity
+              onPress={() => setDraft(null)}
+              style={smallButton(false)}
+            >
+              <Text style={smallButtonText(false)}>取消</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={handleSave} style={smallButton(true)}>
+              <Text style={smallButtonText(true)}>保存</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,307 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  useColorScheme,
+  View,
+} from 'react-native';
+import tw from 'twrnc';
+import {
+  createMacro,
+  deleteMacro,
+  getMacros,
+  loadMacros,
+  updateMacro,
+  type Macro,
+} from '../macros';
+
+interface MacroManagerProps {
+  /** 执行成功的命令，按时间先后排列，用于从历史创建宏 */
+  historyCommands: string[];
+  /** 回放宏 */
+  onRunMacro: (name: string) => void;
+  /** 从界面检查加入的步骤，id 变化时追加到编辑区（没有打开时新建） */
+  draftStep?: { id: number; text: string } | null;
+  disabled?: boolean;
+}
+
+type Draft = {
+  /** 编辑已有宏时为其 id，新建时为空 */
+  id?: string;
+  name: string;
+  steps: string;
+};
+
+/** 从历史创建宏时最多带入的步骤数 */
+const MAX_HISTORY_STEPS = 20;
+
+/**
+ * 宏管理组件
+ * 列出已保存的宏，支持新建、从历史创建、重命名、编辑步骤、删除和回放
+ */
+export default function MacroManager({
+  historyCommands,
+  onRunMacro,
+  draftStep,
+  disabled = false,
+}: MacroManagerProps) {
+  const isDarkMode = useColorScheme() === 'dark';
+  const [macros, setMacros] = useState<Macro[]>(getMacros());
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  useEffect(() => {
+    loadMacros()
+      .then(setMacros)
+      .catch(error => console.error('加载宏失败', error));
+  }, []);
+
+  useEffect(() => {
+    if (!draftStep) {
+      return;
+    }
+    setDraft(current =>
+      current
+        ? {
+            ...current,
+            steps: current.steps
+              ? `${current.steps}\n${draftStep.text}`
+              : draftStep.text,
+          }
+        : { name: '', steps: draftStep.text },
+    );
+  }, [draftStep]);
+
+  const handleSave = async () => {
+    if (!draft) {
+      return;
+    }
+    const steps = draft.steps.split('\n');
+    try {
+      if (draft.id) {
+        await updateMacro(draft.id, { name: draft.name, steps });
+      } else {
+        await createMacro(draft.name, steps);
+      }
+      setMacros([...getMacros()]);
+      setDraft(null);
+    } catch (error) {
+      Alert.alert(
+        '保存失败',
+        error instanceof Error ? error.message : '未知错误',
+      );
+    }
+  };
+
+  const handleDelete = (macro: Macro) => {
+    Alert.alert('删除宏', `确定删除 “${macro.name}” 吗？`, [
+      { text: '取消', style: 'cancel' },
+      {
+        text: '删除',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            setMacros([...(await deleteMacro(macro.id))]);
+          } catch (error) {
+            console.error('删除宏失败', error);
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleCreateFromHistory = () => {
+    setDraft({
+      name: '',
+      steps: historyCommands.slice(-MAX_HISTORY_STEPS).join('\n'),
+    });
+  };
+
+  const inputStyle = tw.style(
+    'rounded-xl px-3 py-2 text-base',
+    isDarkMode
+      ? 'bg-slate-800 text-white border border-slate-700'
+      : 'bg-white border border-slate-200 text-slate-900',
+  );
+
+  const smallButton = (primary: boolean) =>
+    tw.style(
+      'rounded-lg px-3 py-1',
+      primary
+        ? isDarkMode
+          ? 'bg-indigo-500'
+          : 'bg-indigo-600'
+        : isDarkMode
+        ? 'bg-slate-600'
+        : 'bg-slate-200',
+      disabled ? 'opacity-70' : undefined,
+    );
+
+  const smallButtonText = (primary: boolean) =>
+    tw.style(
+      'text-xs font-semibold',
+      primary ? 'text-white' : isDarkMode ? 'text-slate-200' : 'text-slate-700',
+    );
+
+  return (
+    <View style={tw`gap-2`}>
+      <View style={tw`flex-row items-center justify-between`}>
+        <Text
+          style={tw.style(
+            'text-sm font-semibold',
+            isDarkMode ? 'text-slate-200' : 'text-slate-800',
+          )}
+        >
+          宏：
+        </Text>
+        <View style={tw`flex-row gap-2`}>
+          <TouchableOpacity
+            disabled={disabled || historyCommands.length === 0}
+            onPress={handleCreateFromHistory}
+            style={tw.style(
+              smallButton(false),
+              historyCommands.length === 0 ? 'opacity-70' : undefined,
+            )}
+          >
+            <Text style={smallButtonText(false)}>从历史创建</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            disabled={disabled}
+            onPress={() => setDraft({ name: '', steps: '' })}
+            style={smallButton(true)}
+          >
+            <Text style={smallButtonText(true)}>新建</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {/* 编辑区 */}
+      {draft && (
+        <View
+          style={tw.style(
+            'rounded-xl p-3 gap-2',
+            isDarkMode ? 'bg-slate-700' : 'bg-slate-50',
+          )}
+        >
+          <TextInput
+            value={draft.name}
+            onChangeText={name => setDraft({ ...draft, name })}
+            placeholder="宏名称，例如：签到"
+            placeholderTextColor="#94a3b8"
+            style={inputStyle}
+          />
+          <TextInput
+            value={draft.steps}
+            onChangeText={steps => setDraft({ ...draft, steps })}
+            placeholder={
+              '每行一条语句，例如：\n打开 微信\n等待 “通讯录” 出现 最多 5 秒\nwait 2s\nrepeat 5 {\n  向上滑动\n}\nif app == 微信 {\n  点击 50%,80% on failure retry 2\n}\ncall 签到'
+            }
+            placeholderTextColor="#94a3b8"
+            multiline
+            textAlignVertical="top"
+            style={tw.style(inputStyle, 'min-h-24')}
+          />
+          <View style={tw`flex-row justify-end gap-2`}>
+            <TouchableOpacity
+              onPress={() => setDraft(null)}
+              style={smallButton(false)}
+            >
+              <Text style={smallButtonText(false)}>取消</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              disabled={!draft.name.trim()}
+              onPress={handleSave}
+              style={tw.style(
+                smallButton(true),
+                !draft.name.trim() ? 'opacity-70' : undefined,
+              )}
+            >
+              <Text style={smallButtonText(true)}>保存</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {/* 宏列表 */}
+      {macros.length === 0 ? (
+        <Text
+          style={tw.style(
+            'text-xs leading-5',
+            isDarkMode ? 'text-slate-400' : 'text-slate-500',
+          )}
+        >
+          暂无宏。宏支持 wait、repeat、if app ==、on failure retry、call
+          等脚本语句，保存后可以说 “执行 宏名称” 进行回放。
+        </Text>
+      ) : (
+        macros.map(macro => (
+          <View
+            key={macro.id}
+            style={tw.style(
+              'rounded-xl p-3 gap-2',
+              isDarkMode ? 'bg-slate-700' : 'bg-slate-50',
+            )}
+          >
+            <View style={tw`flex-row items-center justify-between`}>
+              <Text
+                style={tw.style(
+                  'text-sm font-semibold',
+                  isDarkMode ? 'text-white' : 'text-slate-900',
+                )}
+              >
+                {macro.name}
+              </Text>
+              <Text
+                style={tw.style(
+                  'text-xs',
+                  isDarkMode ? 'text-slate-400' : 'text-slate-500',
+                )}
+              >
+                {macro.steps.length} 步
+              </Text>
+            </View>
+            <Text
+              numberOfLines={2}
+              style={tw.style(
+                'text-xs leading-5',
+                isDarkMode ? 'text-slate-300' : 'text-slate-600',
+              )}
+            >
+              {macro.steps.join(' → ')}
+            </Text>
+            <View style={tw`flex-row justify-end gap-2`}>
+              <TouchableOpacity
+                disabled={disabled}
+                onPress={() => handleDelete(macro)}
+                style={smallButton(false)}
+              >
+                <Text style={smallButtonText(false)}>删除</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                disabled={disabled}
+                onPress={() =>
+                  setDraft({
+                    id: macro.id,
+                    name: macro.name,
+                    steps: macro.steps.join('\n'),
+                  })
+                }
+                style={smallButton(false)}
+              >
+                <Text style={smallButtonText(false)}>编辑/重命名</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                disabled={disabled}
+                onPress={() => onRunMacro(macro.name)}
+                style={smallButton(true)}
+              >
+                <Text style={smallButtonText(true)}>运行</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ))
+      )}
+    </View>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   Alert,
   Platform,
@@ -17,6 +17,9 @@ import {
   stopListening,
   cancelListening,
   destroy,
+  onPartialResult,
+  onSpeechEnd,
+  onSpeechStart,
 } from '../speechRecognition';
 import {
   checkPermission as checkWhisperPermission,
@@ -25,25 +28,55 @@ import {
   stopRecording as whisperStopRecording,
   release as whisperRelease,
 } from '../whisper';
+import { SUPPORTED_LOCALES, type Locale } from '../locale';
 
 interface VoiceToTextProps {
-  onTextGenerated: (text: string) => void;
+  /** confidence 为识别引擎给出的置信度 */
+  onTextGenerated: (text: string, confidence?: number) => void;
+  /** 识别语言，同时决定命令语法 */
+  language: Locale;
+  onLanguageChange: (language: Locale) => void;
+  /** 每次递增时自动开始一次录音，用于追问缺少的参数 */
+  listenRequest?: number;
 }
 
 type Engine = 'google' | 'whisper';
 
+/** 说完话后等待最终结果的最长时间，超时后取消识别 */
+const FINAL_RESULT_TIMEOUT_MS = 10000;
+
+function clearTimer(timer: {
+  current: ReturnType<typeof setTimeout> | undefined;
+}) {
+  if (timer.current !== undefined) {
+    clearTimeout(timer.current);
+    timer.current = undefined;
+  }
+}
+
 /**
  * 录音转文字组件
  * 支持两种引擎：
  * 1. Google SpeechRecognizer - Android 原生，需要网络或语言包
  * 2. Whisper - 完全离线，使用 ggml-tiny-q5.bin 模型
  */
-export default function VoiceToText({ onTextGenerated }: VoiceToTextProps) {
+export default function VoiceToText({
+  onTextGenerated,
+  language,
+  onLanguageChange,
+  listenRequest,
+}: VoiceToTextProps) {
   const isDarkMode = useColorScheme() === 'dark';
   const [engine, setEngine] = useState<Engine>('whisper'); // 默认使用 Whisper
   const [isRecording, setIsRecording] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [transcribedText, setTranscribedText] = useState('');
+  /** Google 引擎边说边识别出的文字，得到最终结果后清空 */
+  const [partialText, setPartialText] = useState('');
+  const resultTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(
+    undefined,
+  );
+  const resultTimedOutRef = useRef(false);
   const [hasPermission, setHasPermission] = useState<boolean | null>(null);
   const [isSpeechAvailable, setIsSpeechAvailable] = useState<boolean | null>(
     null,
@@ -72,6 +105,30 @@ export default function VoiceToText({ onTextGenerated }: VoiceToTextProps) {
     };
   }, []);
 
+  // 实时转写：识别中的文字先显示出来，最终结果到达后替换
+  useEffect(() => {
+    const unsubscribers = [
+      onSpeechStart(() => setPartialText('')),
+      onPartialResult(setPartialText),
+      onSpeechEnd(() => {
+        setIsRecording(false);
+        setIsProcessing(true);
+        // 原生层迟迟不给出最终结果时取消识别，避免一直显示识别中
+        clearTimer(resultTimerRef);
+        resultTimerRef.current = setTimeout(() => {
+          resultTimedOutRef.current = true;
+          setIsProcessing(false);
+          cancelListening().catch(console.error);
+        }, FINAL_RESULT_TIMEOUT_MS);
+      }),
+    ];
+    const resultTimer = resultTimerRef;
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      clearTimer(resultTimer);
+    };
+  }, []);
+
   // 初始化 Whisper 模型
   const initializeWhisper = async () => {
     try {
@@ -189,13 +246,13 @@ export default function VoiceToText({ onTextGenerated }: VoiceToTextProps) {
         setIsProcessing(false);
 
         // 开始录音（异步等待转写结果）
-        whisperStartRecording()
+        whisperStartRecording(language)
           .then(result => {
             setIsRecording(false);
             setIsProcessing(false);
             if (result && result.text) {
               setTranscribedText(result.text);
-              onTextGenerated(result.text);
+              onTextGenerated(result.text, result.confidence);
             }
           })
           .catch((error: any) => {
@@ -225,22 +282,27 @@ export default function VoiceToText({ onTextGenerated }: VoiceToTextProps) {
 
       setIsRecording(true);
       setTranscribedText('');
+      setPartialText('');
       setIsProcessing(false);
+      resultTimedOutRef.current = false;
 
-      // 开始语音识别（默认使用中文）
-      const result = await startListening('zh-CN');
+      const result = await startListening(language);
 
+      clearTimer(resultTimerRef);
       setIsRecording(false);
       setIsProcessing(false);
+      setPartialText('');
 
       if (result && result.text) {
         setTranscribedText(result.text);
-        onTextGenerated(result.text);
+        onTextGenerated(result.text, result.confidence);
       }
     } catch (error: any) {
       console.error('语音识别失败', error);
+      clearTimer(resultTimerRef);
       setIsRecording(false);
       setIsProcessing(false);
+      setPartialText('');
 
       let errorMessage = '语音识别失败，请重试';
       const code = error?.code;
@@ -268,7 +330,9 @@ export default function VoiceToText({ onTextGenerated }: VoiceToTextProps) {
           errorMessage = message || errorMessage;
         }
       } else if (code === 'CANCELLED') {
-        errorMessage = '录音已取消';
+        errorMessage = resultTimedOutRef.current
+          ? '等待识别结果超时，请重试'
+          : '录音已取消';
       } else if (message) {
         errorMessage = message;
       }
@@ -276,6 +340,18 @@ export default function VoiceToText({ onTextGenerated }: VoiceToTextProps) {
     }
   };
 
+  // 追问时自动开始录音；通过 ref 调用最新的 handleStartRecording
+  // 先于下面的 effect 执行，保证追问时拿到的是本次渲染的函数
+  const startRecordingRef = useRef(handleStartRecording);
+  useEffect(() => {
+    startRecordingRef.current = handleStartRecording;
+  });
+  useEffect(() => {
+    if (listenRequest) {
+      startRecordingRef.current();
+    }
+  }, [listenRequest]);
+
   const handleWhisperError = (error: any) => {
     let errorMessage = '语音识别失败，请重试';
     const code = error?.code;
@@ -348,10 +424,26 @@ export default function VoiceToText({ onTextGenerated }: VoiceToTextProps) {
     }
   };
 
+  /**
+   * 在支持的语言之间切换
+   * 语言同时用于两个识别引擎和命令语法
+   */
+  const handleSwitchLanguage = () => {
+    const index = SUPPORTED_LOCALES.findIndex(item => item.locale === language);
+    onLanguageChange(
+      SUPPORTED_LOCALES[(index + 1) % SUPPORTED_LOCALES.length].locale,
+    );
+  };
+
   const handleClear = () => {
     setTranscribedText('');
+    setPartialText('');
   };
 
+  // 最终结果优先；还在识别时显示实时转写
+  const isLive = !transcribedText && !!partialText;
+  const displayedText = transcribedText || partialText;
+
   return (
     <View
       style={tw.style(
@@ -369,22 +461,41 @@ export default function VoiceToText({ onTextGenerated }: VoiceToTextProps) {
         >
           语音输入
         </Text>
-        <TouchableOpacity
-          onPress={handleSwitchEngine}
-          style={tw.style(
-            'rounded-lg px-3 py-1',
-            isDarkMode ? 'bg-slate-700' : 'bg-slate-200',
-          )}
-        >
-          <Text
+        <View style={tw`flex-row gap-2`}>
+          <TouchableOpacity
+            onPress={handleSwitchLanguage}
+            disabled={isRecording}
             style={tw.style(
-              'text-xs font-semibold',
-              isDarkMode ? 'text-slate-200' : 'text-slate-700',
+              'rounded-lg px-3 py-1',
+              isDarkMode ? 'bg-slate-700' : 'bg-slate-200',
             )}
           >
-            {engine === 'whisper' ? 'Whisper' : 'Google'}
-          </Text>
-        </TouchableOpacity>
+            <Text
+              style={tw.style(
+                'text-xs font-semibold',
+                isDarkMode ? 'text-slate-200' : 'text-slate-700',
+              )}
+            >
+              {SUPPORTED_LOCALES.find(item => item.locale === language)?.label}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={handleSwitchEngine}
+            style={tw.style(
+              'rounded-lg px-3 py-1',
+              isDarkMode ? 'bg-slate-700' : 'bg-slate-200',
+            )}
+          >
+            <Text
+              style={tw.style(
+                'text-xs font-semibold',
+                isDarkMode ? 'text-slate-200' : 'text-slate-700',
+              )}
+            >
+              {engine === 'whisper' ? 'Whisper' : 'Google'}
+            </Text>
+          </TouchableOpacity>
+        </View>
       </View>
       <Text
         style={tw.style(
@@ -550,7 +661,7 @@ export default function VoiceToText({ onTextGenerated }: VoiceToTextProps) {
       </View>
 
       {/* 识别结果 */}
-      {transcribedText ? (
+      {displayedText ? (
         <View
           style={tw.style(
             'rounded-xl p-4 gap-3',
@@ -566,7 +677,7 @@ export default function VoiceToText({ onTextGenerated }: VoiceToTextProps) {
                   isDarkMode ? 'text-slate-200' : 'text-slate-700',
                 )}
               >
-                ✨ 识别结果
+                {isLive ? '🎙️ 实时转写' : '✨ 识别结果'}
               </Text>
               <View
                 style={tw.style(
@@ -616,10 +727,16 @@ export default function VoiceToText({ onTextGenerated }: VoiceToTextProps) {
             <Text
               style={tw.style(
                 'text-base leading-7',
-                isDarkMode ? 'text-white' : 'text-slate-900',
+                isLive
+                  ? isDarkMode
+                    ? 'text-slate-400'
+                    : 'text-slate-500'
+                  : isDarkMode
+                  ? 'text-white'
+                  : 'text-slate-900',
               )}
             >
-              {transcribedText}
+              {displayedText}
             </Text>
           </View>
         </View>
@@ -0,0 +1,148 @@
+/**
+ * 各语言命令语法共用的匹配工具
+ */
+
+import type { Locale } from '../locale';
+import type { Intent, TextSpan, UnknownIntent } from '../intentParser';
+import { normalizeNumbers, toSourceRange } from '../numberNormalizer';
+import type { ScreenPoint } from '../screen';
+
+/**
+ * 命令只说了关键字、缺少参数时的追问
+ */
+export type SlotQuestion = {
+  /** 追问的话，例如 “打开哪个应用？” */
+  prompt: string;
+  /** 把用户的回答补全为一条完整命令 */
+  fill: (answer: string) => string;
+};
+
+/**
+ * 一条命令规则：关键字决定命令类型，parse 从关键字处开始解析参数
+ */
+export type IntentRule = {
+  keyword: RegExp;
+  parse: (command: string) => Intent;
+  slot?: SlotQuestion;
+};
+
+/**
+ * 一种语言的命令语法
+ */
+export type Grammar = {
+  locale: Locale;
+  /** 以原文中最先出现的关键字决定命令类型 */
+  rules: IntentRule[];
+  /** 步骤分隔：连接词或标点，且后面紧跟命令关键字 */
+  stepSeparator: RegExp;
+  /** 关键字的标准写法，用于纠正识别出的同音字和错字 */
+  keywords: string[];
+};
+
+/** 坐标：两个数字，可带 % 表示屏幕比例 */
+export const POINT = '(\\d+)(%?)\\s*[,，]\\s*(\\d+)(%?)';
+
+export function spanOf(match: RegExpExecArray): TextSpan {
+  return {
+    start: match.index,
+    end: match.index + match[0].length,
+    text: match[0],
+  };
+}
+
+/**
+ * 在数字规范化后的文字上匹配，返回的 span 仍指向原文
+ */
+export function execNormalized(
+  command: string,
+  pattern: RegExp,
+  locale: Locale,
+): { groups: string[]; span: TextSpan } | null {
+  const normalized = normalizeNumbers(command, locale);
+  const match = pattern.exec(normalized.text);
+  if (!match) {
+    return null;
+  }
+  const { start, end } = toSourceRange(
+    normalized,
+    match.index,
+    match.index + match[0].length,
+  );
+  return {
+    groups: match.slice(1),
+    span: { start, end, text: command.slice(start, end) },
+  };
+}
+
+export function wholeSpan(command: string): TextSpan {
+  const start = command.length - command.trimStart().length;
+  const text = command.trim();
+  return { start, end: start + text.length, text };
+}
+
+export function unknown(command: string, hint: string): UnknownIntent {
+  return { type: 'Unknown', hint, span: wholeSpan(command) };
+}
+
+/**
+ * 把坐标的匹配分组转换为屏幕坐标
+ * @returns 单位不一致或百分比超出 0-100 时返回 null，由语法给出格式提示
+ */
+export function toPoint([
+  x,
+  xPercent,
+  y,
+  yPercent,
+]: string[]): ScreenPoint | null {
+  if (xPercent !== yPercent) {
+    return null;
+  }
+  if (!xPercent) {
+    return { x: parseInt(x, 10), y: parseInt(y, 10), unit: 'px' };
+  }
+  const ratioX = parseInt(x, 10) / 100;
+  const ratioY = parseInt(y, 10) / 100;
+  return ratioX > 1 || ratioY > 1
+    ? null
+    : { x: ratioX, y: ratioY, unit: 'ratio' };
+}
+
+/**
+ * 按长度从长到短拼接候选词，保证 “正中间” 优先于 “中间” 匹配
+ */
+export function alternation(words: string[]): string {
+  return [...words].sort((a, b) => b.length - a.length).join('|');
+}
+
+/**
+ * 取出文字中的所有坐标，例如图案解锁的 “100,200 到 300,400 到 500,600”
+ * @returns 有坐标单位前后不一致（只有一个带 %）时返回 null
+ */
+export function pointsIn(text: string, locale: Locale): ScreenPoint[] | null {
+  const normalized = normalizeNumbers(text, locale).text;
+  const matches = [...normalized.matchAll(new RegExp(POINT, 'g'))];
+  const points = matches
+    .map(match => toPoint(match.slice(1)))
+    .filter((point): point is ScreenPoint => point !== null);
+  return points.length === matches.length ? points : null;
+}
+
+/**
+ * 拆出句末的超时说明，例如 “最多 5 秒”、“up to 5 seconds”
+ * @param pattern 以 $ 结尾，第一个分组为秒数
+ * @returns rest 为去掉超时说明后的命令
+ */
+export function splitTimeout(
+  command: string,
+  pattern: RegExp,
+  locale: Locale,
+): { rest: string; timeoutMs?: number } {
+  const match = execNormalized(command, pattern, locale);
+  if (!match) {
+    return { rest: command };
+  }
+  return {
+    rest: command.slice(0, match.span.start),
+    timeoutMs: parseInt(match.groups[0], 10) * 1000,
+  };
+}
@@ -0,0 +1,528 @@
+/**
+ * 英文命令语法
+ * 例如 “open WeChat then tap 100, 200 and type hello”
+ */
+
+import type { GlobalAction, NodePosition } from '../automation';
+import type { Intent, TextSpan } from '../intentParser';
+import {
+  DEFAULT_SWIPE_FRACTION,
+  SCREEN_REGIONS,
+  directionalSwipe,
+  type ScreenPoint,
+  type ScreenRegion,
+  type SwipeDirection,
+} from '../screen';
+import {
+  POINT,
+  alternation,
+  execNormalized,
+  pointsIn,
+  spanOf,
+  splitTimeout,
+  toPoint,
+  unknown,
+  type Grammar,
+} from './common';
+
+/** 能开启一个新步骤的命令关键字（正则片段） */
+const COMMAND_KEYWORDS = [
+  'open',
+  'launch',
+  'start',
+  'tap',
+  'click',
+  'long',
+  'double',
+  'zoom',
+  'pinch',
+  'draw',
+  'swipe',
+  'type',
+  'input',
+  'paste',
+  'run',
+  'execute',
+  'wait',
+  'go',
+  'press',
+  'show',
+  'pull',
+  'lock',
+  'take',
+  'screenshot',
+];
+
+const NEXT_KEYWORD = `(?=(?:${COMMAND_KEYWORDS.join('|')})\\b)`;
+const STEP_SEPARATOR = new RegExp(
+  `\\s*(?:[,;.]\\s*)?\\b(?:and then|after that|then|and)\\s+${NEXT_KEYWORD}` +
+    `|\\s*[,;.]\\s*${NEXT_KEYWORD}`,
+  'gi',
+);
+
+const REGION_NAMES: Record<string, ScreenRegion> = {
+  center: 'center',
+  centre: 'center',
+  middle: 'center',
+  'top left': 'topLeft',
+  'top right': 'topRight',
+  'bottom left': 'bottomLeft',
+  'bottom right': 'bottomRight',
+  top: 'top',
+  bottom: 'bottom',
+  left: 'left',
+  right: 'right',
+};
+
+/**
+ * 动词后面的位置：屏幕区域（“the center”）或坐标（“100, 200”）
+ * @param verb 动词的正则片段，例如 '(?:tap|click)'
+ */
+function parsePointAfter(
+  command: string,
+  verb: string,
+): { point: ScreenPoint; span: TextSpan } | null {
+  const region = new RegExp(
+    `\\b${verb}\\s+(?:on\\s+|at\\s+)?(?:the\\s+)?(?:screen\\s+)?` +
+      `(${alternation(Object.keys(REGION_NAMES)).replace(/ /g, '\\s+')})\\b` +
+      '(?:\\s+(?:corner|side|edge))?(?:\\s+of\\s+the\\s+screen)?',
+    'i',
+  ).exec(command);
+  if (region) {
+    const name = region[1].toLowerCase().replace(/\s+/g, ' ');
+    return {
+      point: SCREEN_REGIONS[REGION_NAMES[name]],
+      span: spanOf(region),
+    };
+  }
+  const match = execNormalized(
+    command,
+    new RegExp(`\\b${verb}\\s+(?:on\\s+|at\\s+)?${POINT}`, 'i'),
+    'en-US',
+  );
+  const point = match && toPoint(match.groups);
+  return match && point ? { point, span: match.span } : null;
+}
+
+const GLOBAL_ACTION_NAMES: Record<string, GlobalAction> = {
+  'go back': 'back',
+  'press back': 'back',
+  'navigate back': 'back',
+  'go home': 'home',
+  'press home': 'home',
+  'go to the home screen': 'home',
+  'go to home screen': 'home',
+  'home screen': 'home',
+  recents: 'recents',
+  'open recents': 'recents',
+  'recent apps': 'recents',
+  'open recent apps': 'recents',
+  'show recent apps': 'recents',
+  'app switcher': 'recents',
+  notifications: 'notifications',
+  'open notifications': 'notifications',
+  'show notifications': 'notifications',
+  'pull down notifications': 'notifications',
+  'pull down the notification shade': 'notifications',
+  'notification shade': 'notifications',
+  'quick settings': 'quickSettings',
+  'open quick settings': 'quickSettings',
+  'show quick settings': 'quickSettings',
+  'lock screen': 'lockScreen',
+  'lock the screen': 'lockScreen',
+  'lock phone': 'lockScreen',
+  'lock the phone': 'lockScreen',
+  screenshot: 'screenshot',
+  'take screenshot': 'screenshot',
+  'take a screenshot': 'screenshot',
+};
+
+/** go back、go home、open notifications，不带参数 */
+const GLOBAL_ACTION_PATTERN = new RegExp(
+  `\\b(?:${alternation(Object.keys(GLOBAL_ACTION_NAMES)).replace(
+    / /g,
+    '\\s+',
+  )})\\b`,
+  'i',
+);
+
+function parseGlobalAction(command: string): Intent {
+  const match = GLOBAL_ACTION_PATTERN.exec(command);
+  if (!match) {
+    return unknown(
+      command,
+      'System action not recognized. Try: go back or go home',
+    );
+  }
+  return {
+    type: 'GlobalAction',
+    action: GLOBAL_ACTION_NAMES[match[0].toLowerCase().replace(/\s+/g, ' ')],
+    span: spanOf(match),
+  };
+}
+
+function parseOpenApp(command: string): Intent {
+  const match = /\b(?:open|launch|start)\s+(?:the\s+)?(.*[^\s.!?])/i.exec(
+    command,
+  );
+  if (!match) {
+    return unknown(
+      command,
+      'App name not recognized. Try: open WeChat or open com.example.app',
+    );
+  }
+  return { type: 'OpenApp', target: match[1], span: spanOf(match) };
+}
+
+const ORDINALS: Record<string, number> = {
+  first: 1,
+  second: 2,
+  third: 3,
+  fourth: 4,
+  fifth: 5,
+};
+
+const POSITION_NAMES: Record<string, NodePosition> = {
+  topmost: 'top',
+  top: 'top',
+  bottommost: 'bottom',
+  bottom: 'bottom',
+  leftmost: 'left',
+  rightmost: 'right',
+};
+
+/** 多个元素匹配时的选择，例如 “the second”、“the bottom” */
+const ELEMENT_SELECTOR = `(?:the\\s+)?(?:(${alternation(
+  Object.keys(ORDINALS),
+)}|\\d+(?:st|nd|rd|th))\\s+|(${alternation(
+  Object.keys(POSITION_NAMES),
+)})\\s+)?`;
+
+/** tap "Send"、tap the second "OK"、tap button Send */
+const TEXT_ELEMENT_PATTERN = new RegExp(
+  `\\b(?:tap|click)\\s+(?:on\\s+)?${ELEMENT_SELECTOR}(?:["“']([^"”']+)["”']|(?:button|text|label)\\s+(.*[^\\s.!?]))`,
+  'i',
+);
+
+/** tap id send_button */
+const ID_ELEMENT_PATTERN = new RegExp(
+  `\\b(?:tap|click)\\s+(?:on\\s+)?${ELEMENT_SELECTOR}(?:view\\s+)?id\\s+([\\w.:/]+)`,
+  'i',
+);
+
+function parseTapElement(command: string): Intent | null {
+  const byText = TEXT_ELEMENT_PATTERN.exec(command);
+  const byId = byText ? null : ID_ELEMENT_PATTERN.exec(command);
+  const match = byText ?? byId;
+  if (!match) {
+    return null;
+  }
+  const [, ordinal, position, value, unquoted] = match;
+  const index = ordinal
+    ? ORDINALS[ordinal.toLowerCase()] ?? parseInt(ordinal, 10)
+    : 1;
+  return {
+    type: 'TapElement',
+    query: byText
+      ? { text: (value ?? unquoted).trim() }
+      : { id: value, exact: true },
+    selector: position
+      ? { position: POSITION_NAMES[position.toLowerCase()] }
+      : { index: index - 1 },
+    span: spanOf(match),
+  };
+}
+
+function parseTap(command: string): Intent {
+  const element = parseTapElement(command);
+  if (element) {
+    return element;
+  }
+
+  const target = parsePointAfter(command, '(?:tap|click)');
+  if (!target) {
+    return unknown(
+      command,
+      'Coordinates not recognized. Try: tap 100, 200, tap 50%, 80% or tap the center',
+    );
+  }
+  return { type: 'Tap', ...target };
+}
+
+const LONG_PRESS_VERB = '(?:long[\\s-]*press|press\\s+and\\s+hold)';
+
+function parseLongPress(command: string): Intent {
+  const target = parsePointAfter(command, LONG_PRESS_VERB);
+  if (!target) {
+    return unknown(
+      command,
+      'Position not recognized. Try: long press 300, 400 or long press the center',
+    );
+  }
+  return { type: 'LongPress', ...target };
+}
+
+const DOUBLE_TAP_VERB = '(?:double[\\s-]*(?:tap|click))';
+
+function parseDoubleTap(command: string): Intent {
+  const target = parsePointAfter(command, DOUBLE_TAP_VERB);
+  if (!target) {
+    return unknown(
+      command,
+      'Position not recognized. Try: double tap 300, 400 or double tap the center',
+    );
+  }
+  return { type: 'DoubleTap', ...target };
+}
+
+const PINCH_VERB = '(?:zoom|pinch)(?:\\s+(?:in|out))?';
+
+/**
+ * zoom in、zoom out at 300, 400、pinch the center，不说位置时以屏幕中间为中心
+ * pinch 和 pinch in 是捏合（缩小），pinch out 是张开（放大）
+ */
+function parsePinch(command: string): Intent {
+  const match = new RegExp(`\\b${PINCH_VERB}\\b`, 'i').exec(command);
+  if (!match) {
+    return unknown(command, 'Zoom not recognized. Try: zoom in or zoom out');
+  }
+  const target = parsePointAfter(command, PINCH_VERB);
+  return {
+    type: 'Pinch',
+    zoomIn: /^(?:zoom(?!\s+out)|pinch\s+out)/i.test(match[0]),
+    center: target?.point ?? SCREEN_REGIONS.center,
+    span: target?.span ?? spanOf(match),
+  };
+}
+
+/**
+ * draw 100, 200 to 300, 400 to 500, 600，用于图案解锁等
+ */
+function parseGesturePath(command: string): Intent {
+  const match = execNormalized(
+    command,
+    new RegExp(`\\bdraw\\s+(?:from\\s+)?${POINT}(?:\\s+to\\s+${POINT})+`, 'i'),
+    'en-US',
+  );
+  const points = match && pointsIn(match.span.text, 'en-US');
+  if (!match || !points) {
+    return unknown(
+      command,
+      'Path not recognized. Try: draw 100, 200 to 300, 400 to 500, 600',
+    );
+  }
+  return { type: 'GesturePath', points, span: match.span };
+}
+
+/**
+ * 追问点击位置时，不是坐标或区域的回答当作按钮上的文字
+ */
+function fillTap(answer: string): string {
+  const command = `tap ${answer}`;
+  return parseTap(command).type === 'Unknown' ? `tap "${answer}"` : command;
+}
+
+function parseSwipe(command: string): Intent {
+  // 方向滑动，例如 “swipe up”、“swipe left halfway”、“swipe down 30%”
+  const directional = execNormalized(
+    command,
+    /\bswipe\s+(up|down|left|right)\b(?:\s+(?:by\s+)?(?:(halfway|half(?:\s+(?:the|a)\s+screen)?)|(\d+)%))?/i,
+    'en-US',
+  );
+  if (directional) {
+    const [direction, half, percent] = directional.groups;
+    const fraction = percent
+      ? parseInt(percent, 10) / 100
+      : half
+      ? 0.5
+      : DEFAULT_SWIPE_FRACTION;
+    return {
+      type: 'Swipe',
+      ...directionalSwipe(direction.toLowerCase() as SwipeDirection, fraction),
+      span: directional.span,
+    };
+  }
+
+  const match = execNormalized(
+    command,
+    new RegExp(`\\bswipe\\s+(?:from\\s+)?${POINT}\\s+to\\s+${POINT}`, 'i'),
+    'en-US',
+  );
+  const from = match && toPoint(match.groups.slice(0, 4));
+  const to = match && toPoint(match.groups.slice(4));
+  if (!match || !from || !to) {
+    return unknown(
+      command,
+      'Swipe not recognized. Try: swipe 100, 200 to 300, 400 or swipe up',
+    );
+  }
+  return { type: 'Swipe', from, to, span: match.span };
+}
+
+function parseInputText(command: string): Intent {
+  const match = /\b(?:type|input|paste)\s+(.+)/i.exec(command);
+  if (!match) {
+    return unknown(command, 'Text not recognized. Try: type hello world');
+  }
+  return { type: 'InputText', text: match[1].trim(), span: spanOf(match) };
+}
+
+const WAIT_TIMEOUT =
+  /\s*,?\s*(?:for\s+up\s+to|up\s+to|at\s+most|timeout)\s+(\d+)\s*(?:seconds?|secs?|s)\b[.!]?$/i;
+
+/**
+ * wait for "Send"、wait until "Loading" disappears、wait for WeChat to open、
+ * wait until the screen is idle，句末可以加 “up to 5 seconds”
+ */
+function parseWait(command: string): Intent {
+  const { rest, timeoutMs } = splitTimeout(command, WAIT_TIMEOUT, 'en-US');
+  const withTimeout = (match: RegExpExecArray) => ({
+    timeoutMs,
+    span:
+      timeoutMs !== undefined
+        ? {
+            start: match.index,
+            end: command.trimEnd().length,
+            text: command.slice(match.index).trimEnd(),
+          }
+        : spanOf(match),
+  });
+
+  const idle =
+    /\bwait\s+(?:for|until)\s+(?:the\s+)?(?:(?:screen|page|ui)\s+)?(?:to\s+)?(?:be\s+|is\s+)?(?:idle|stable|settled|settles|settle)\b/i.exec(
+      rest,
+    );
+  if (idle) {
+    return { type: 'Wait', condition: { kind: 'idle' }, ...withTimeout(idle) };
+  }
+  const text =
+    /\bwait\s+(?:for|until)\s+["“']([^"”']+)["”']\s*(?:to\s+)?(appears?|disappears?|is\s+gone|goes\s+away)?/i.exec(
+      rest,
+    );
+  if (text) {
+    const gone = /^(?:disappear|is|goes)/i.test(text[2] ?? '');
+    return {
+      type: 'Wait',
+      condition: { kind: 'text', text: text[1].trim(), gone },
+      ...withTimeout(text),
+    };
+  }
+  const app =
+    /\bwait\s+(?:for|until)\s+(?:the\s+app\s+)?(.*?[^\s.!?])(?:\s+(?:to\s+open|opens|is\s+open|to\s+launch|launches))?[.!?]?\s*$/i.exec(
+      rest,
+    );
+  if (app) {
+    return {
+      type: 'Wait',
+      condition: { kind: 'app', app: app[1] },
+      ...withTimeout(app),
+    };
+  }
+  return unknown(
+    command,
+    'Wait condition not recognized. Try: wait for "Send", wait for WeChat to open or wait until the screen is idle',
+  );
+}
+
+/**
+ * 追问等待条件时，其他回答当作要等待出现的文字
+ */
+function fillWait(answer: string): string {
+  const command = `wait for ${answer}`;
+  return /^(?:the\s+)?(?:screen|page|ui|idle|stable)\b/i.test(answer) ||
+    /\b(?:to\s+open|opens|is\s+open)\b/i.test(answer)
+    ? command
+    : `wait for "${answer}"`;
+}
+
+function parseRunMacro(command: string): Intent {
+  const match =
+    /\b(?:run|execute)\s+(?:the\s+)?(?:macro\s+)?(.*[^\s.!?])/i.exec(command);
+  if (!match) {
+    return unknown(command, 'Macro name not recognized. Try: run check-in');
+  }
+  return { type: 'RunMacro', name: match[1].trim(), span: spanOf(match) };
+}
+
+export const enUSGrammar: Grammar = {
+  locale: 'en-US',
+  rules: [
+    // 排在 open 之前，同一位置命中时 “open notifications” 不会被当成应用名
+    { keyword: GLOBAL_ACTION_PATTERN, parse: parseGlobalAction },
+    {
+      keyword: /\b(?:open|launch|start)\b/i,
+      parse: parseOpenApp,
+      slot: {
+        prompt: 'Which app should I open?',
+        fill: answer => `open ${answer}`,
+      },
+    },
+    {
+      keyword: /\b(?:tap|click)\b/i,
+      parse: parseTap,
+      slot: {
+        prompt:
+          'Where should I tap? Say "the center", "100, 200" or the text on a button',
+        fill: fillTap,
+      },
+    },
+    {
+      keyword: new RegExp(`\\b${LONG_PRESS_VERB}\\b`, 'i'),
+      parse: parseLongPress,
+      slot: {
+        prompt: 'Where should I long press? Say "the center" or "300, 400"',
+        fill: answer => `long press ${answer}`,
+      },
+    },
+    {
+      keyword: new RegExp(`\\b${DOUBLE_TAP_VERB}\\b`, 'i'),
+      parse: parseDoubleTap,
+      slot: {
+        prompt: 'Where should I double tap? Say "the center" or "300, 400"',
+        fill: answer => `double tap ${answer}`,
+      },
+    },
+    { keyword: /\b(?:zoom|pinch)\b/i, parse: parsePinch },
+    {
+      keyword: /\bdraw\b/i,
+      parse: parseGesturePath,
+      slot: {
+        prompt:
+          'Which points should I draw through? Say "100, 200 to 300, 400"',
+        fill: answer => `draw ${answer}`,
+      },
+    },
+    {
+      keyword: /\bswipe\b/i,
+      parse: parseSwipe,
+      slot: {
+        prompt: 'Which direction should I swipe?',
+        fill: answer => `swipe ${answer}`,
+      },
+    },
+    {
+      keyword: /\b(?:type|input|paste)\b/i,
+      parse: parseInputText,
+      slot: { prompt: 'What should I type?', fill: answer => `type ${answer}` },
+    },
+    {
+      keyword: /\b(?:run|execute)\b/i,
+      parse: parseRunMacro,
+      slot: {
+        prompt: 'Which macro should I run?',
+        fill: answer => `run ${answer}`,
+      },
+    },
+    {
+      keyword: /\bwait\b/i,
+      parse: parseWait,
+      slot: {
+        prompt:
+          'What should I wait for? Say "Send" appears, WeChat to open or the screen to be idle',
+        fill: fillWait,
+      },
+    },
+  ],
+  stepSeparator: STEP_SEPARATOR,
+  keywords: COMMAND_KEYWORDS,
+};
@@ -0,0 +1,511 @@
+/**
+ * 中文命令语法
+ * 例如 “打开微信然后点击 500,1200 再输入 你好”
+ */
+
+import type { GlobalAction, NodePosition } from '../automation';
+import type { Intent, TextSpan } from '../intentParser';
+import { parseChineseNumber } from '../numberNormalizer';
+import {
+  DEFAULT_SWIPE_FRACTION,
+  SCREEN_REGIONS,
+  directionalSwipe,
+  type ScreenPoint,
+  type ScreenRegion,
+  type SwipeDirection,
+} from '../screen';
+import {
+  POINT,
+  alternation,
+  execNormalized,
+  pointsIn,
+  spanOf,
+  splitTimeout,
+  toPoint,
+  unknown,
+  type Grammar,
+} from './common';
+
+const GLOBAL_ACTION_NAMES: Record<string, GlobalAction> = {
+  返回: 'back',
+  后退: 'back',
+  返回上一页: 'back',
+  返回上一级: 'back',
+  回到桌面: 'home',
+  返回桌面: 'home',
+  回桌面: 'home',
+  回到主屏幕: 'home',
+  返回主屏幕: 'home',
+  最近任务: 'recents',
+  打开最近任务: 'recents',
+  多任务: 'recents',
+  下拉通知栏: 'notifications',
+  打开通知栏: 'notifications',
+  通知栏: 'notifications',
+  快捷设置: 'quickSettings',
+  打开快捷设置: 'quickSettings',
+  控制中心: 'quickSettings',
+  锁屏: 'lockScreen',
+  锁定屏幕: 'lockScreen',
+  截屏: 'screenshot',
+  截图: 'screenshot',
+};
+
+/** 返回、回到桌面、下拉通知栏，不带参数 */
+const GLOBAL_ACTION_PATTERN = new RegExp(
+  alternation(Object.keys(GLOBAL_ACTION_NAMES)),
+);
+
+/** 能开启一个新步骤的命令关键字（正则片段） */
+const COMMAND_KEYWORDS = [
+  '打开',
+  '启动',
+  '点击',
+  '长按',
+  '双击',
+  '(?:双指)?(?:放大|缩小)',
+  '画线',
+  '滑动',
+  '(?:向|往)?[上下左右][滑划]',
+  '输入',
+  '粘贴',
+  '执行',
+  '运行',
+  '等待',
+  alternation(Object.keys(GLOBAL_ACTION_NAMES)),
+];
+
+const NEXT_KEYWORD = `(?=${COMMAND_KEYWORDS.join('|')})`;
+const STEP_SEPARATOR = new RegExp(
+  `\\s*(?:[，,。；;]\\s*)?(?:然后再|然后|接着|并且|之后|再)\\s*${NEXT_KEYWORD}` +
+    `|\\s*[，,。；;]\\s*${NEXT_KEYWORD}`,
+  'g',
+);
+
+const REGION_NAMES: Record<string, ScreenRegion> = {
+  中间: 'center',
+  正中间: 'center',
+  中央: 'center',
+  中心: 'center',
+  左上角: 'topLeft',
+  右上角: 'topRight',
+  左下角: 'bottomLeft',
+  右下角: 'bottomRight',
+  顶部: 'top',
+  上方: 'top',
+  底部: 'bottom',
+  下方: 'bottom',
+  左边: 'left',
+  左侧: 'left',
+  右边: 'right',
+  右侧: 'right',
+};
+
+/**
+ * 动词后面的位置：屏幕区域（“屏幕中间”）或坐标（“100,200”）
+ * @param verb 动词的正则片段，例如 '点击'
+ */
+function parsePointAfter(
+  command: string,
+  verb: string,
+): { point: ScreenPoint; span: TextSpan } | null {
+  const region = new RegExp(
+    `${verb}\\s*(?:屏幕)?(?:的)?\\s*(${alternation(
+      Object.keys(REGION_NAMES),
+    )})`,
+  ).exec(command);
+  if (region) {
+    return {
+      point: SCREEN_REGIONS[REGION_NAMES[region[1]]],
+      span: spanOf(region),
+    };
+  }
+  const match = execNormalized(
+    command,
+    new RegExp(`${verb}\\s*${POINT}`),
+    'zh-CN',
+  );
+  const point = match && toPoint(match.groups);
+  return match && point ? { point, span: match.span } : null;
+}
+
+const POSITION_NAMES: Record<string, NodePosition> = {
+  最上面: 'top',
+  最上方: 'top',
+  最下面: 'bottom',
+  最下方: 'bottom',
+  最左边: 'left',
+  最左侧: 'left',
+  最右边: 'right',
+  最右侧: 'right',
+};
+
+/** 多个元素匹配时的选择，例如 “第二个”、“最下面的” */
+const ELEMENT_SELECTOR = `(?:第\\s*(\\d+|[一二两三四五六七八九十]+)\\s*个|(${alternation(
+  Object.keys(POSITION_NAMES),
+)}))?\\s*的?\\s*`;
+
+/** 点击 “发送”、点击第二个 “确定”、点击按钮 发送 */
+const TEXT_ELEMENT_PATTERN = new RegExp(
+  `点击\\s*${ELEMENT_SELECTOR}(?:["“「『]([^"”」』]+)["”」』]|(?:按钮|文字|文本)\\s*(.*[^\\s。！!.]))`,
+);
+
+/** 点击 id send_button、点击控件 com.example:id/send */
+const ID_ELEMENT_PATTERN = new RegExp(
+  `点击\\s*${ELEMENT_SELECTOR}(?:id|ID|控件)\\s*(?:为|是)?\\s*([\\w.:/]+)`,
+);
+
+function parseTapElement(command: string): Intent | null {
+  const byText = TEXT_ELEMENT_PATTERN.exec(command);
+  const byId = byText ? null : ID_ELEMENT_PATTERN.exec(command);
+  const match = byText ?? byId;
+  if (!match) {
+    return null;
+  }
+  const [, ordinal, position, value, unquoted] = match;
+  const index = ordinal
+    ? /^\d+$/.test(ordinal)
+      ? parseInt(ordinal, 10)
+      : parseChineseNumber(ordinal.replace('两', '二'))
+    : null;
+  return {
+    type: 'TapElement',
+    query: byText
+      ? { text: (value ?? unquoted).trim() }
+      : { id: value, exact: true },
+    selector: position
+      ? { position: POSITION_NAMES[position] }
+      : { index: index ? index - 1 : 0 },
+    span: spanOf(match),
+  };
+}
+
+const DIRECTIONS: Record<string, SwipeDirection> = {
+  上: 'up',
+  下: 'down',
+  左: 'left',
+  右: 'right',
+};
+
+function parseOpenApp(command: string): Intent {
+  // 应用名可能包含空格（“高德 地图”），取到句末并去掉结尾标点
+  const match = /(?:打开|启动)\s*(.*[^\s。！!.])/.exec(command);
+  if (!match) {
+    return unknown(
+      command,
+      '无法识别应用名称，请使用格式：打开 微信 或 打开 com.example.app',
+    );
+  }
+  return { type: 'OpenApp', target: match[1], span: spanOf(match) };
+}
+
+function parseTap(command: string): Intent {
+  const element = parseTapElement(command);
+  if (element) {
+    return element;
+  }
+
+  const target = parsePointAfter(command, '点击');
+  if (!target) {
+    return unknown(
+      command,
+      '无法识别坐标，请使用格式：点击 100,200、点击 50%,80% 或 点击屏幕中间',
+    );
+  }
+  return { type: 'Tap', ...target };
+}
+
+function parseLongPress(command: string): Intent {
+  const target = parsePointAfter(command, '长按');
+  if (!target) {
+    return unknown(
+      command,
+      '无法识别长按位置，请使用格式：长按 300,400 或 长按屏幕中间',
+    );
+  }
+  return { type: 'LongPress', ...target };
+}
+
+function parseDoubleTap(command: string): Intent {
+  const target = parsePointAfter(command, '双击');
+  if (!target) {
+    return unknown(
+      command,
+      '无法识别双击位置，请使用格式：双击 300,400 或 双击屏幕中间',
+    );
+  }
+  return { type: 'DoubleTap', ...target };
+}
+
+/**
+ * 放大、缩小、双指放大屏幕右上角，不说位置时以屏幕中间为中心
+ */
+function parsePinch(command: string): Intent {
+  const match = /(?:双指)?(放大|缩小)(?:一下|一点)?/.exec(command);
+  if (!match) {
+    return unknown(command, '无法识别缩放，请使用格式：放大 或 缩小屏幕中间');
+  }
+  const target = parsePointAfter(command, match[0]);
+  return {
+    type: 'Pinch',
+    zoomIn: match[1] === '放大',
+    center: target?.point ?? SCREEN_REGIONS.center,
+    span: target?.span ?? spanOf(match),
+  };
+}
+
+/**
+ * 画线 100,200 到 300,400 到 500,600，用于图案解锁等
+ */
+function parseGesturePath(command: string): Intent {
+  const match = execNormalized(
+    command,
+    new RegExp(`(?:画线|绘制)\\s*${POINT}(?:\\s*到\\s*${POINT})+`),
+    'zh-CN',
+  );
+  const points = match && pointsIn(match.span.text, 'zh-CN');
+  if (!match || !points) {
+    return unknown(
+      command,
+      '无法识别路径，请使用格式：画线 100,200 到 300,400 到 500,600',
+    );
+  }
+  return { type: 'GesturePath', points, span: match.span };
+}
+
+function parseSwipe(command: string): Intent {
+  // 方向滑动，例如 “向上滑动”、“向左滑一半”、“上滑 30%”
+  const directional = execNormalized(
+    command,
+    /(?:(?:向|往)([上下左右])(?:滑动|滑|划)|([上下左右])(?:滑|划)(?:动)?)(?:一下)?\s*(一半|半屏|(\d+)%)?/,
+    'zh-CN',
+  );
+  if (directional) {
+    const [arrow, shortArrow, amount, percent] = directional.groups;
+    const fraction = percent
+      ? parseInt(percent, 10) / 100
+      : amount
+      ? 0.5
+      : DEFAULT_SWIPE_FRACTION;
+    return {
+      type: 'Swipe',
+      ...directionalSwipe(DIRECTIONS[arrow || shortArrow], fraction),
+      span: directional.span,
+    };
+  }
+
+  const match = execNormalized(
+    command,
+    new RegExp(`滑动\\s*${POINT}\\s+到\\s+${POINT}`),
+    'zh-CN',
+  );
+  const from = match && toPoint(match.groups.slice(0, 4));
+  const to = match && toPoint(match.groups.slice(4));
+  if (!match || !from || !to) {
+    return unknown(
+      command,
+      '无法识别滑动坐标，请使用格式：滑动 100,200 到 300,400 或 向上滑动',
+    );
+  }
+  return { type: 'Swipe', from, to, span: match.span };
+}
+
+function parseInputText(command: string): Intent {
+  const match = /(?:输入|粘贴)\s+(.+)/.exec(command);
+  if (!match) {
+    return unknown(command, '无法识别文本内容，请使用格式：输入 你好世界');
+  }
+  return { type: 'InputText', text: match[1].trim(), span: spanOf(match) };
+}
+
+const WAIT_TIMEOUT = /\s*[，,]?\s*(?:最多|超时)\s*(\d+)\s*秒(?:钟)?[。！!.]?$/;
+
+/**
+ * 等待 “发送” 出现、等待 “加载中” 消失、等待微信打开、等待界面稳定，
+ * 句末可以加 “最多 5 秒”
+ */
+function parseWait(command: string): Intent {
+  const { rest, timeoutMs } = splitTimeout(command, WAIT_TIMEOUT, 'zh-CN');
+  const withTimeout = (match: RegExpExecArray) => ({
+    timeoutMs,
+    span:
+      timeoutMs !== undefined
+        ? {
+            start: match.index,
+            end: command.trimEnd().length,
+            text: command.slice(match.index).trimEnd(),
+          }
+        : spanOf(match),
+  });
+
+  const idle = /等待\s*(?:界面|页面|屏幕)?\s*(?:稳定|静止|不动|加载完成?)/.exec(
+    rest,
+  );
+  if (idle) {
+    return { type: 'Wait', condition: { kind: 'idle' }, ...withTimeout(idle) };
+  }
+  const text = /等待\s*["“「『]([^"”」』]+)["”」』]\s*(出现|消失)?/.exec(rest);
+  if (text) {
+    return {
+      type: 'Wait',
+      condition: {
+        kind: 'text',
+        text: text[1].trim(),
+        gone: text[2] === '消失',
+      },
+      ...withTimeout(text),
+    };
+  }
+  const app = /等待\s*(.+?)\s*(?:打开|启动)(?:完成)?/.exec(rest);
+  if (app) {
+    return {
+      type: 'Wait',
+      condition: { kind: 'app', app: app[1] },
+      ...withTimeout(app),
+    };
+  }
+  return unknown(
+    command,
+    '无法识别等待条件，请使用格式：等待 “发送” 出现、等待微信打开 或 等待界面稳定',
+  );
+}
+
+function parseGlobalAction(command: string): Intent {
+  const match = GLOBAL_ACTION_PATTERN.exec(command);
+  if (!match) {
+    return unknown(command, '无法识别系统操作，请使用格式：返回 或 回到桌面');
+  }
+  return {
+    type: 'GlobalAction',
+    action: GLOBAL_ACTION_NAMES[match[0]],
+    span: spanOf(match),
+  };
+}
+
+function parseRunMacro(command: string): Intent {
+  const match = /(?:执行|运行)\s*(?:宏)?\s*(.*[^\s。！!.])/.exec(command);
+  if (!match) {
+    return unknown(command, '无法识别宏名称，请使用格式：执行 签到');
+  }
+  return { type: 'RunMacro', name: match[1].trim(), span: spanOf(match) };
+}
+
+/**
+ * 追问点击位置时，不是坐标或区域的回答当作按钮上的文字
+ */
+function fillTap(answer: string): string {
+  const command = `点击 ${answer}`;
+  return parseTap(command).type === 'Unknown' ? `点击 “${answer}”` : command;
+}
+
+/**
+ * 追问等待条件时，其他回答当作要等待出现的文字
+ */
+function fillWait(answer: string): string {
+  const command = `等待 ${answer}`;
+  return parseWait(command).type === 'Unknown' ? `等待 “${answer}”` : command;
+}
+
+/**
+ * 追问滑动方向时，回答通常只有 “向上” 或 “上”
+ */
+function fillSwipe(answer: string): string {
+  const direction = /^(?:向|往)?([上下左右])(?:滑动|滑|划)?\s*(.*)$/.exec(
+    answer,
+  );
+  return direction ? `向${direction[1]}滑动${direction[2]}` : `滑动 ${answer}`;
+}
+
+export const zhCNGrammar: Grammar = {
+  locale: 'zh-CN',
+  // “输入 点击这里” 中先出现的是 “输入”，不会被当成点击
+  rules: [
+    // 排在 “打开” 之前，同一位置命中时 “打开通知栏” 不会被当成应用名
+    { keyword: GLOBAL_ACTION_PATTERN, parse: parseGlobalAction },
+    {
+      keyword: /打开|启动/,
+      parse: parseOpenApp,
+      slot: { prompt: '打开哪个应用？', fill: answer => `打开 ${answer}` },
+    },
+    {
+      keyword: /点击/,
+      parse: parseTap,
+      slot: {
+        prompt: '点击哪里？可以说 “中间”、“100,200” 或按钮上的文字',
+        fill: fillTap,
+      },
+    },
+    {
+      keyword: /长按/,
+      parse: parseLongPress,
+      slot: {
+        prompt: '长按哪里？可以说 “中间” 或 “300,400”',
+        fill: answer => `长按 ${answer}`,
+      },
+    },
+    {
+      keyword: /双击/,
+      parse: parseDoubleTap,
+      slot: {
+        prompt: '双击哪里？可以说 “中间” 或 “300,400”',
+        fill: answer => `双击 ${answer}`,
+      },
+    },
+    { keyword: /放大|缩小/, parse: parsePinch },
+    {
+      keyword: /画线|绘制/,
+      parse: parseGesturePath,
+      slot: {
+        prompt: '沿哪些点画？例如 “100,200 到 300,400 到 500,600”',
+        fill: answer => `画线 ${answer}`,
+      },
+    },
+    {
+      keyword: /(?:向|往)?[上下左右][滑划]|滑动/,
+      parse: parseSwipe,
+      slot: { prompt: '往哪个方向滑？', fill: fillSwipe },
+    },
+    {
+      keyword: /输入|粘贴/,
+      parse: parseInputText,
+      slot: { prompt: '要输入什么？', fill: answer => `输入 ${answer}` },
+    },
+    {
+      keyword: /执行|运行/,
+      parse: parseRunMacro,
+      slot: { prompt: '执行哪个宏？', fill: answer => `执行 ${answer}` },
+    },
+    {
+      keyword: /等待/,
+      parse: parseWait,
+      slot: {
+        prompt: '等待什么？可以说 “发送” 出现、微信打开 或 界面稳定',
+        fill: fillWait,
+      },
+    },
+  ],
+  stepSeparator: STEP_SEPARATOR,
+  keywords: [
+    '打开',
+    '启动',
+    '点击',
+    '长按',
+    '双击',
+    '放大',
+    '缩小',
+    '画线',
+    '滑动',
+    '输入',
+    '粘贴',
+    '执行',
+    '运行',
+    '等待',
+    '返回',
+    '回到桌面',
+    '最近任务',
+    '通知栏',
+    '快捷设置',
+    '锁屏',
+    '截屏',
+  ],
+};
@@ -0,0 +1,441 @@
+import {
+  AutomationError,
+  captureScreenshot,
+  clickById,
+  clickByText,
+  DEFAULT_WAIT_TIMEOUT_MS,
+  doubleTap,
+  gesturePath,
+  getForegroundApp,
+  longPress,
+  MIN_PINCH_SPAN,
+  openApp,
+  performGlobalAction,
+  tap,
+  swipe,
+  pinch,
+  setText,
+  waitForApp,
+  waitForIdle,
+  waitForText,
+  zoom,
+  type AutomationErrorCode,
+  type GlobalAction,
+} from './automation';
+import { DEFAULT_POLICY } from './actionPolicy';
+import { describeAutomationError } from './automationErrors';
+import { resolveAppName } from './appResolver';
+import { findMacro } from './macros';
+import { parseCommand, type Intent, type WaitIntent } from './intentParser';
+import type { Locale } from './locale';
+import { getScreenSize, toPixels } from './screen';
+import {
+  parseScript,
+  runScript,
+  type ScriptNode,
+  type ScriptProgress,
+} from './scriptInterpreter';
+
+export type ExecutionResult = {
+  success: boolean;
+  message: string;
+  /** 自动化接口失败时的错误码 */
+  errorCode?: AutomationErrorCode;
+  /** 建议的解决办法 */
+  fix?: string;
+};
+
+/** 步骤执行前后的屏幕截图（文件 URI），截图失败时为空 */
+export type StepScreenshots = {
+  before?: string;
+  after?: string;
+};
+
+export type StepResult = ExecutionResult & {
+  index: number;
+  intent: Intent;
+  /** 该步骤所属的宏，直接下达的命令为空 */
+  macro?: string;
+  /** 开启 captureScreenshots 时才有 */
+  screenshots?: StepScreenshots;
+};
+
+export type MacroProgress = ScriptProgress & {
+  macro: string;
+};
+
+export type ExecuteStepsOptions = {
+  /** 相邻两步之间的等待时间 */
+  stepDelayMs?: number;
+  /** 每一步完成后回调，用于实时更新执行历史（包括宏内部的步骤） */
+  onStepResult?: (result: StepResult) => void;
+  /** 宏脚本逐行进度 */
+  onScriptProgress?: (progress: MacroProgress) => void;
+  /** 取消尚未开始的步骤 */
+  signal?: AbortSignal;
+  /** 宏内命令使用的语法语言 */
+  locale?: Locale;
+  /** 每一步执行前后截图，用于排查宏的问题；截图失败不影响执行，敏感应用中不截图 */
+  captureScreenshots?: boolean;
+};
+
+const DEFAULT_STEP_DELAY_MS = 500;
+
+/** 两指缩放时张开的距离占屏幕宽度的比例 */
+const PINCH_SPAN_FRACTION = 0.6;
+
+/** 启动应用后等待它切到前台的时间 */
+const OPEN_APP_TIMEOUT_MS = 5000;
+
+/** 执行后等界面刷新再截图 */
+const SCREENSHOT_SETTLE_MS = 300;
+
+const sleep = (ms: number) =>
+  new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const GLOBAL_ACTION_LABELS: Record<GlobalAction, string> = {
+  back: '返回',
+  home: '回到桌面',
+  recents: '打开最近任务',
+  notifications: '下拉通知栏',
+  quickSettings: '打开快捷设置',
+  lockScreen: '锁屏',
+  screenshot: '截屏',
+};
+
+/**
+ * 自动化接口失败时的执行结果，message 为空时使用错误码的默认说明
+ */
+function failure(error: unknown, message?: string): ExecutionResult {
+  const help = describeAutomationError(error);
+  return {
+    success: false,
+    message: message ?? help.message,
+    errorCode: help.code,
+    fix: help.fix,
+  };
+}
+
+/**
+ * 执行操作，指定错误码的失败换成带上下文的说明，其他错误继续抛出
+ */
+async function attempt(
+  action: () => Promise<unknown>,
+  messages: Partial<Record<AutomationErrorCode, string>>,
+): Promise<ExecutionResult | null> {
+  try {
+    await action();
+    return null;
+  } catch (error) {
+    if (error instanceof AutomationError && messages[error.code]) {
+      return failure(error, messages[error.code]);
+    }
+    throw error;
+  }
+}
+
+/**
+ * 截图失败（例如系统版本不支持）时返回 undefined
+ * 截图以未加密的文件保存在缓存中，前台是敏感或禁止操作的应用时不截图
+ */
+async function tryCaptureScreenshot(): Promise<string | undefined> {
+  const foregroundPackage = await getForegroundApp().catch(() => null);
+  const { sensitivePackages, blockedPackages } = DEFAULT_POLICY;
+  if (
+    foregroundPackage &&
+    [...sensitivePackages, ...blockedPackages].includes(foregroundPackage)
+  ) {
+    return undefined;
+  }
+  return captureScreenshot().catch(() => undefined);
+}
+
+/** 正在执行的宏，用于阻止宏直接或间接调用自身 */
+const runningMacros = new Set<string>();
+
+async function isAppInForeground(app: string): Promise<boolean> {
+  const target = resolveAppName(app);
+  if (!target) {
+    return false;
+  }
+  return (await getForegroundApp()) === target.packageName;
+}
+
+/**
+ * 宏即具名脚本：逐行交给脚本解释器执行，普通命令行仍走意图解析
+ */
+async function runMacro(
+  name: string,
+  options: ExecuteStepsOptions,
+): Promise<ExecutionResult> {
+  const macro = findMacro(name);
+  if (!macro) {
+    return { success: false, message: `未找到宏: ${name}` };
+  }
+  if (runningMacros.has(macro.id)) {
+    return { success: false, message: `宏 ${macro.name} 不能调用自身` };
+  }
+
+  let program: ScriptNode[];
+  try {
+    program = parseScript(macro.steps.join('\n'));
+  } catch (error) {
+    return {
+      success: false,
+      message: `宏 ${macro.name} 脚本有误: ${
+        error instanceof Error ? error.message : '未知错误'
+      }`,
+    };
+  }
+
+  const macroOptions: ExecuteStepsOptions = {
+    ...options,
+    onStepResult: result =>
+      options.onStepResult?.({ ...result, macro: result.macro ?? macro.name }),
+  };
+
+  runningMacros.add(macro.id);
+  try {
+    const result = await runScript(program, {
+      executeCommand: async text => {
+        const results = await executeSteps(
+          parseCommand(text, options.locale),
+          macroOptions,
+        );
+        return (
+          results.find(step => !step.success) ?? {
+            success: true,
+            message: results.map(step => step.message).join('；'),
+          }
+        );
+      },
+      callScript: scriptName => runMacro(scriptName, macroOptions),
+      isAppInForeground,
+      stepDelayMs: options.stepDelayMs ?? DEFAULT_STEP_DELAY_MS,
+      signal: options.signal,
+      onProgress: progress =>
+        options.onScriptProgress?.({ ...progress, macro: macro.name }),
+    });
+    return result.success
+      ? { success: true, message: `已执行宏 ${macro.name}` }
+      : {
+          success: false,
+          message: `宏 ${macro.name} 执行失败: ${result.message}`,
+        };
+  } finally {
+    runningMacros.delete(macro.id);
+  }
+}
+
+async function runWait(
+  intent: WaitIntent,
+  signal?: AbortSignal,
+): Promise<ExecutionResult> {
+  const timeoutMs = intent.timeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS;
+  const seconds = `${Math.round(timeoutMs / 1000)} 秒`;
+  const { condition } = intent;
+  switch (condition.kind) {
+    case 'app': {
+      const app = resolveAppName(condition.app);
+      if (!app) {
+        return { success: false, message: `未找到应用: ${condition.app}` };
+      }
+      return (
+        (await attempt(
+          () => waitForApp(app.packageName, { timeoutMs, signal }),
+          { TIMEOUT: `等待 ${app.name} 打开超时（${seconds}）` },
+        )) ?? { success: true, message: `${app.name} 已在前台` }
+      );
+    }
+    case 'text': {
+      const { text, gone } = condition;
+      const state = gone ? '消失' : '出现';
+      return (
+        (await attempt(
+          () => waitForText(text, { gone, timeoutMs, mode: 'event', signal }),
+          { TIMEOUT: `等待 “${text}” ${state}超时（${seconds}）` },
+        )) ?? { success: true, message: `“${text}” 已${state}` }
+      );
+    }
+    case 'idle': {
+      return (
+        (await attempt(() => waitForIdle({ timeoutMs, signal }), {
+          TIMEOUT: `等待界面稳定超时（${seconds}）`,
+        })) ?? { success: true, message: '界面已稳定' }
+      );
+    }
+  }
+}
+
+/**
+ * 根据意图类型分发到对应的自动化操作
+ * 自动化接口的失败大多直接抛出，由 executeSteps 统一转换为错误说明
+ */
+export async function executeIntent(
+  intent: Intent,
+  options: ExecuteStepsOptions = {},
+): Promise<ExecutionResult> {
+  switch (intent.type) {
+    case 'OpenApp': {
+      const app = resolveAppName(intent.target);
+      if (!app) {
+        return { success: false, message: `未找到应用: ${intent.target}` };
+      }
+      const label =
+        app.source === 'package'
+          ? app.packageName
+          : `${app.name} (${app.packageName})`;
+      const failed = await attempt(() => openApp(app.packageName), {
+        APP_NOT_INSTALLED: `未安装应用: ${label}`,
+      });
+      if (failed) {
+        return failed;
+      }
+      // openApp 在发出启动请求后立即返回，等应用切到前台再执行下一步
+      const ready = await waitForApp(app.packageName, {
+        timeoutMs: OPEN_APP_TIMEOUT_MS,
+        signal: options.signal,
+      }).then(
+        () => true,
+        () => false,
+      );
+      return {
+        success: true,
+        message: ready
+          ? `已启动应用: ${label}`
+          : `已启动应用: ${label}（尚未切到前台）`,
+      };
+    }
+    case 'Tap': {
+      const { x, y } = toPixels(intent.point);
+      await tap(x, y);
+      return { success: true, message: `已点击坐标: (${x}, ${y})` };
+    }
+    case 'TapElement': {
+      const { query, selector } = intent;
+      const label = query.text ? `“${query.text}”` : `id ${query.id}`;
+      return (
+        (await attempt(
+          () =>
+            query.text
+              ? clickByText(query.text, { ...selector, exact: query.exact })
+              : clickById(query.id ?? '', selector),
+          { NODE_NOT_FOUND: `未找到可点击的 ${label}` },
+        )) ?? { success: true, message: `已点击 ${label}` }
+      );
+    }
+    case 'LongPress': {
+      const { x, y } = toPixels(intent.point);
+      await longPress(x, y);
+      return { success: true, message: `已长按: (${x}, ${y})` };
+    }
+    case 'DoubleTap': {
+      const { x, y } = toPixels(intent.point);
+      await doubleTap(x, y);
+      return { success: true, message: `已双击: (${x}, ${y})` };
+    }
+    case 'Pinch': {
+      const size = getScreenSize();
+      const center = toPixels(intent.center, size);
+      // 两指距离总大于并拢时的距离，否则放大和缩小的方向会反过来
+      const span = Math.max(
+        Math.round(size.width * PINCH_SPAN_FRACTION),
+        MIN_PINCH_SPAN + 1,
+      );
+      // 中点靠近左右边缘时向内移动，两指都留在屏幕内
+      const half = Math.ceil(span / 2);
+      const x = Math.min(Math.max(center.x, half), size.width - 1 - half);
+      const y = center.y;
+      const label = intent.zoomIn ? '放大' : '缩小';
+      await (intent.zoomIn ? zoom(x, y, { span }) : pinch(x, y, { span }));
+      return { success: true, message: `已${label}: (${x}, ${y})` };
+    }
+    case 'GesturePath': {
+      const size = getScreenSize();
+      const points = intent.points.map(point => toPixels(point, size));
+      await gesturePath(points);
+      const path = points.map(({ x, y }) => `(${x}, ${y})`).join(' -> ');
+      return { success: true, message: `已画线: ${path}` };
+    }
+    case 'Swipe': {
+      const size = getScreenSize();
+      const from = toPixels(intent.from, size);
+      const to = toPixels(intent.to, size);
+      await swipe(from.x, from.y, to.x, to.y);
+      const path = `(${from.x}, ${from.y}) -> (${to.x}, ${to.y})`;
+      return { success: true, message: `已滑动: ${path}` };
+    }
+    case 'InputText': {
+      await setText(intent.text);
+      return { success: true, message: `已输入文本: ${intent.text}` };
+    }
+    case 'RunMacro':
+      return runMacro(intent.name, options);
+    case 'Wait':
+      return runWait(intent, options.signal);
+    case 'GlobalAction': {
+      const label = GLOBAL_ACTION_LABELS[intent.action];
+      return (
+        (await attempt(() => performGlobalAction(intent.action), {
+          UNSUPPORTED: `${label}失败，需要 Android 9 及以上`,
+          ACTION_FAILED: `${label}失败`,
+        })) ?? { success: true, message: `已${label}` }
+      );
+    }
+    case 'Unknown':
+      return {
+        success: false,
+        message: intent.hint ?? `无法识别命令: ${intent.span.text}`,
+      };
+  }
+}
+
+/**
+ * 按顺序执行多个意图，某一步失败或被取消后不再执行后续步骤
+ * @returns 已执行步骤的结果（不包含被跳过的步骤）
+ */
+export async function executeSteps(
+  intents: Intent[],
+  options: ExecuteStepsOptions = {},
+): Promise<StepResult[]> {
+  const {
+    stepDelayMs = DEFAULT_STEP_DELAY_MS,
+    onStepResult,
+    signal,
+    captureScreenshots = false,
+  } = options;
+  const results: StepResult[] = [];
+  for (const [index, intent] of intents.entries()) {
+    if (index > 0 && stepDelayMs > 0) {
+      await sleep(stepDelayMs);
+    }
+    if (signal?.aborted) {
+      const stepResult = { success: false, message: '已取消', index, intent };
+      results.push(stepResult);
+      onStepResult?.(stepResult);
+      break;
+    }
+
+    const before = captureScreenshots
+      ? await tryCaptureScreenshot()
+      : undefined;
+    let result: ExecutionResult;
+    try {
+      result = await executeIntent(intent, options);
+    } catch (error) {
+      result = failure(error);
+    }
+
+    const stepResult: StepResult = { ...result, index, intent };
+    if (captureScreenshots) {
+      await sleep(SCREENSHOT_SETTLE_MS);
+      stepResult.screenshots = { before, after: await tryCaptureScreenshot() };
+    }
+    results.push(stepResult);
+    onStepResult?.(stepResult);
+    if (!result.success) {
+      break;
+    }
+  }
+  return results;
+}
@@ -0,0 +1,163 @@
+/**
+ * 命令模糊匹配
+ * 语音识别常把关键字识别成同音字或错字（“大开微信”、“点机 100,200”），
+ * 精确解析失败时尝试纠正关键字，并为每个候选给出置信度
+ */
+
+import { getGrammar, parseCommand, type Intent } from './intentParser';
+import type { Locale } from './locale';
+import { similarity, toPinyin } from './textSimilarity';
+
+export type CommandMatch = {
+  /** 实际解析的命令文字，纠正过关键字时与原文不同 */
+  text: string;
+  intents: Intent[];
+  /** 置信度，0-1，精确命中所有步骤时为 1 */
+  confidence: number;
+  /** 由大模型解析时为 'llm'，模型输出没有置信度，执行前需要确认 */
+  source?: 'llm';
+};
+
+/** 低于该置信度时不直接执行，而是给出 “您是不是想说” 建议 */
+export const SUGGESTION_THRESHOLD = 0.8;
+
+/** 关键字纠正的最低得分，低于它的候选直接丢弃 */
+const MIN_KEYWORD_SCORE = 0.5;
+
+const MAX_MATCHES = 4;
+
+type KeywordHit = {
+  start: number;
+  end: number;
+  keyword: string;
+  score: number;
+};
+
+const CHINESE = /^[\u4e00-\u9fff]+$/;
+
+/**
+ * 计算一段文字与关键字的相似度
+ * 中文比较拼音：同音字得 0.9，其余按拼音编辑距离打折；英文直接比较拼写
+ */
+function scoreKeyword(text: string, keyword: string, locale: Locale): number {
+  if (locale === 'en-US') {
+    return similarity(text.toLowerCase(), keyword) * 0.9;
+  }
+  const textPinyin = toPinyin(text);
+  const keywordPinyin = toPinyin(keyword);
+  if (textPinyin === keywordPinyin) {
+    return 0.9;
+  }
+  return similarity(textPinyin, keywordPinyin) * 0.8;
+}
+
+/**
+ * 找出命令中疑似关键字的片段
+ */
+function findKeywordHits(command: string, locale: Locale): KeywordHit[] {
+  const { keywords } = getGrammar(locale);
+  const hits: KeywordHit[] = [];
+  const consider = (start: number, text: string) => {
+    for (const keyword of keywords) {
+      if (text.toLowerCase() === keyword) {
+        continue;
+      }
+      const score = scoreKeyword(text, keyword, locale);
+      if (score >= MIN_KEYWORD_SCORE) {
+        hits.push({ start, end: start + text.length, keyword, score });
+      }
+    }
+  };
+
+  if (locale === 'en-US') {
+    for (const word of command.matchAll(/[a-z]+/gi)) {
+      consider(word.index, word[0]);
+    }
+    return hits;
+  }
+  const lengths = new Set(keywords.map(keyword => keyword.length));
+  for (const length of lengths) {
+    for (let start = 0; start + length <= command.length; start++) {
+      const text = command.slice(start, start + length);
+      if (CHINESE.test(text) && !keywords.includes(text)) {
+        consider(start, text);
+      }
+    }
+  }
+  return hits;
+}
+
+/**
+ * 从后往前替换，保证前面的位置不受影响
+ */
+function applyHits(command: string, hits: KeywordHit[]): string {
+  return [...hits]
+    .sort((a, b) => b.start - a.start)
+    .reduce(
+      (text, hit) =>
+        text.slice(0, hit.start) + hit.keyword + text.slice(hit.end),
+      command,
+    );
+}
+
+/**
+ * 贪心地选出互不重叠的最佳片段
+ */
+function bestDisjointHits(hits: KeywordHit[]): KeywordHit[] {
+  const chosen: KeywordHit[] = [];
+  for (const hit of [...hits].sort((a, b) => b.score - a.score)) {
+    if (
+      chosen.every(other => hit.end <= other.start || hit.start >= other.end)
+    ) {
+      chosen.push(hit);
+    }
+  }
+  return chosen;
+}
+
+function knownRatio(intents: Intent[]): number {
+  if (intents.length === 0) {
+    return 0;
+  }
+  return (
+    intents.filter(intent => intent.type !== 'Unknown').length / intents.length
+  );
+}
+
+/**
+ * 为一条命令打分并给出候选，按置信度从高到低排列
+ * 第一项即最佳结果；精确解析的结果总在候选中，所以列表不会为空
+ */
+export function matchCommand(command: string, locale: Locale): CommandMatch[] {
+  const exactIntents = parseCommand(command, locale);
+  const exact: CommandMatch = {
+    text: command,
+    intents: exactIntents,
+    confidence: knownRatio(exactIntents),
+  };
+  if (exact.confidence === 1) {
+    return [exact];
+  }
+
+  const hits = findKeywordHits(command, locale);
+  const corrections = [
+    bestDisjointHits(hits),
+    ...hits.map(hit => [hit]),
+  ].filter(group => group.length > 0);
+
+  const matches = new Map<string, CommandMatch>([[command, exact]]);
+  for (const group of corrections) {
+    const text = applyHits(command, group);
+    const intents = parseCommand(text, locale);
+    const ratio = knownRatio(intents);
+    if (ratio <= exact.confidence || matches.has(text)) {
+      continue;
+    }
+    const keywordScore = group.reduce((product, hit) => product * hit.score, 1);
+    matches.set(text, { text, intents, confidence: keywordScore * ratio });
+  }
+
+  return [...matches.values()]
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_MATCHES);
+}
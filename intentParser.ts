@@ -0,0 +1,269 @@
+/**
+ * 命令意图解析
+ * 将转写文字解析为类型化的意图，与 UI 和执行逻辑解耦
+ * 具体的命令说法由 grammars/ 下各语言的语法定义
+ */
+
+import {
+  wholeSpan,
+  type Grammar,
+  type IntentRule,
+  type SlotQuestion,
+} from './grammars/common';
+import { enUSGrammar } from './grammars/enUS';
+import { zhCNGrammar } from './grammars/zhCN';
+import type { GlobalAction, NodeQuery, NodeSelector } from './automation';
+import { DEFAULT_LOCALE, type Locale } from './locale';
+import type { ScreenPoint } from './screen';
+
+/**
+ * 意图在原始文字中匹配到的片段
+ */
+export type TextSpan = {
+  start: number;
+  end: number;
+  text: string;
+};
+
+export type OpenAppIntent = {
+  type: 'OpenApp';
+  /** 用户说出的应用名或包名，执行时再解析为包名 */
+  target: string;
+  span: TextSpan;
+};
+
+export type TapIntent = {
+  type: 'Tap';
+  point: ScreenPoint;
+  span: TextSpan;
+};
+
+/**
+ * 按文字或资源 id 点击界面元素，布局变化后仍然有效
+ */
+export type TapElementIntent = {
+  type: 'TapElement';
+  query: NodeQuery;
+  /** 多个元素匹配时的选择 */
+  selector: NodeSelector;
+  span: TextSpan;
+};
+
+export type LongPressIntent = {
+  type: 'LongPress';
+  point: ScreenPoint;
+  span: TextSpan;
+};
+
+export type DoubleTapIntent = {
+  type: 'DoubleTap';
+  point: ScreenPoint;
+  span: TextSpan;
+};
+
+/**
+ * 两指缩放，zoomIn 为 true 时两指张开（放大），否则捏合（缩小）
+ */
+export type PinchIntent = {
+  type: 'Pinch';
+  zoomIn: boolean;
+  center: ScreenPoint;
+  span: TextSpan;
+};
+
+/**
+ * 单指沿折线滑动，例如图案解锁
+ */
+export type GesturePathIntent = {
+  type: 'GesturePath';
+  points: ScreenPoint[];
+  span: TextSpan;
+};
+
+export type SwipeIntent = {
+  type: 'Swipe';
+  from: ScreenPoint;
+  to: ScreenPoint;
+  span: TextSpan;
+};
+
+export type InputTextIntent = {
+  type: 'InputText';
+  text: string;
+  span: TextSpan;
+};
+
+export type RunMacroIntent = {
+  type: 'RunMacro';
+  name: string;
+  span: TextSpan;
+};
+
+export type WaitCondition =
+  | { kind: 'app'; app: string }
+  /** gone 为 true 时等待文字消失 */
+  | { kind: 'text'; text: string; gone: boolean }
+  /** 界面停止变化 */
+  | { kind: 'idle' };
+
+/**
+ * 等待界面达到某个状态，再继续后面的步骤
+ */
+export type WaitIntent = {
+  type: 'Wait';
+  condition: WaitCondition;
+  /** 未指定时使用默认超时 */
+  timeoutMs?: number;
+  span: TextSpan;
+};
+
+/**
+ * 系统全局操作：返回、回到桌面、下拉通知栏等
+ */
+export type GlobalActionIntent = {
+  type: 'GlobalAction';
+  action: GlobalAction;
+  span: TextSpan;
+};
+
+export type UnknownIntent = {
+  type: 'Unknown';
+  /** 命中了关键字但参数不完整时的格式提示 */
+  hint?: string;
+  /** 只说了关键字、完全没有参数时的追问 */
+  slot?: SlotQuestion;
+  span: TextSpan;
+};
+
+export type Intent =
+  | OpenAppIntent
+  | TapIntent
+  | TapElementIntent
+  | LongPressIntent
+  | DoubleTapIntent
+  | PinchIntent
+  | GesturePathIntent
+  | SwipeIntent
+  | InputTextIntent
+  | RunMacroIntent
+  | WaitIntent
+  | GlobalActionIntent
+  | UnknownIntent;
+
+export type IntentType = Intent['type'];
+
+const GRAMMARS: Record<Locale, Grammar> = {
+  'zh-CN': zhCNGrammar,
+  'en-US': enUSGrammar,
+};
+
+export function getGrammar(locale: Locale): Grammar {
+  return GRAMMARS[locale];
+}
+
+/** 关键字之后只剩空白和标点，说明用户还没说参数 */
+const MISSING_ARGUMENT = /^[\s。，,！!？?.]*$/;
+
+function parseWithGrammar(command: string, grammar: Grammar): Intent | null {
+  let first: { index: number; end: number; rule: IntentRule } | null = null;
+  for (const rule of grammar.rules) {
+    const match = rule.keyword.exec(command);
+    if (match && (!first || match.index < first.index)) {
+      first = { index: match.index, end: match.index + match[0].length, rule };
+    }
+  }
+  if (!first) {
+    return null;
+  }
+  // 从关键字处开始解析，避免前面的文字干扰参数匹配
+  const intent = first.rule.parse(command.slice(first.index));
+  if (intent.type === 'Unknown') {
+    const bare = MISSING_ARGUMENT.test(command.slice(first.end));
+    return {
+      ...intent,
+      ...(bare && first.rule.slot ? { slot: first.rule.slot } : {}),
+      span: wholeSpan(command),
+    };
+  }
+  return {
+    ...intent,
+    span: {
+      start: intent.span.start + first.index,
+      end: intent.span.end + first.index,
+      text: intent.span.text,
+    },
+  };
+}
+
+/**
+ * 将一条命令文字解析为意图
+ * 当前语言的语法没有命中任何关键字时，再尝试其他语言，
+ * 这样宏和手动输入里混用的中英文命令也能执行
+ * @param command 转写或手动输入的命令，例如 '打开 com.tencent.mm'
+ * @param locale 命令的语言，与语音识别使用的语言一致
+ */
+export function parseIntent(
+  command: string,
+  locale: Locale = DEFAULT_LOCALE,
+): Intent {
+  const grammars = [
+    GRAMMARS[locale],
+    ...Object.values(GRAMMARS).filter(grammar => grammar.locale !== locale),
+  ];
+  for (const grammar of grammars) {
+    const intent = parseWithGrammar(command, grammar);
+    if (intent) {
+      return intent;
+    }
+  }
+  return { type: 'Unknown', span: wholeSpan(command) };
+}
+
+/**
+ * 按连接词把一句话拆成多个步骤，返回每一步在原文中的位置
+ */
+export function splitCommand(
+  command: string,
+  locale: Locale = DEFAULT_LOCALE,
+): TextSpan[] {
+  const steps: TextSpan[] = [];
+  let start = 0;
+  const pushStep = (end: number) => {
+    const text = command.slice(start, end);
+    if (text.trim()) {
+      const leading = text.length - text.trimStart().length;
+      steps.push({
+        start: start + leading,
+        end: start + leading + text.trim().length,
+        text: text.trim(),
+      });
+    }
+  };
+
+  for (const match of command.matchAll(GRAMMARS[locale].stepSeparator)) {
+    pushStep(match.index);
+    start = match.index + match[0].length;
+  }
+  pushStep(command.length);
+  return steps;
+}
+
+/**
+ * 解析可能包含多个步骤的命令，意图的 span 均相对于原始文字
+ */
+export function parseCommand(
+  command: string,
+  locale: Locale = DEFAULT_LOCALE,
+): Intent[] {
+  return splitCommand(command, locale).map(step => {
+    const intent = parseIntent(step.text, locale);
+    return {
+      ...intent,
+      span: {
+        start: intent.span.start + step.start,
+        end: intent.span.end + step.start,
+        text: intent.span.text,
+      },
+    };
+  });
+}
@@ -0,0 +1,531 @@
+/**
+ * 大模型意图解析
+ * 把转写文字和自动化操作的工具描述发给 OpenAI 兼容的对话接口
+ * （例如本地的 llama.cpp server），再把返回的工具调用映射为意图。
+ * 规则语法处理不了的自由说法（“帮我在微信里给张三发个早上好”）由它兜底
+ */
+
+import type { GlobalAction } from './automation';
+import { wholeSpan } from './grammars/common';
+import type { Intent } from './intentParser';
+import { getMacros } from './macros';
+import { SCREEN_REGIONS, directionalSwipe, type ScreenPoint } from './screen';
+import { getJSON, setJSON } from './storage';
+
+export type LlmParserConfig = {
+  enabled: boolean;
+  /**
+   * 接口地址，例如 http://llm.local:8080/v1
+   * 正式版只允许本机和 .local、.lan 等局域网主机名使用 http，见 network_security_config.xml
+   */
+  endpoint: string;
+  model: string;
+  timeoutMs: number;
+  /** 本地服务通常不需要 */
+  apiKey?: string;
+};
+
+export const DEFAULT_LLM_CONFIG: LlmParserConfig = {
+  enabled: false,
+  endpoint: 'http://127.0.0.1:8080/v1',
+  model: 'qwen2.5-7b-instruct',
+  timeoutMs: 8000,
+};
+
+export type LlmParserErrorCode =
+  | 'TIMEOUT'
+  | 'NETWORK'
+  | 'HTTP'
+  | 'INVALID_RESPONSE'
+  | 'NO_ACTIONS';
+
+export class LlmParserError extends Error {
+  code: LlmParserErrorCode;
+
+  constructor(code: LlmParserErrorCode, message: string) {
+    super(message);
+    this.name = 'LlmParserError';
+    this.code = code;
+  }
+}
+
+const CONFIG_KEY = 'llmParser.config';
+
+let config: LlmParserConfig = DEFAULT_LLM_CONFIG;
+
+export async function loadLlmConfig(): Promise<LlmParserConfig> {
+  config = {
+    ...DEFAULT_LLM_CONFIG,
+    ...(await getJSON<Partial<LlmParserConfig>>(CONFIG_KEY, {})),
+  };
+  return config;
+}
+
+export function getLlmConfig(): LlmParserConfig {
+  return config;
+}
+
+export async function saveLlmConfig(
+  changes: Partial<LlmParserConfig>,
+): Promise<LlmParserConfig> {
+  config = { ...config, ...changes };
+  await setJSON(CONFIG_KEY, config);
+  return config;
+}
+
+const POINT_PROPERTIES = {
+  relative: {
+    type: 'boolean',
+    description: '为 true 时坐标是相对屏幕宽高的比例（0-1），否则是像素',
+  },
+};
+
+const GLOBAL_ACTIONS: GlobalAction[] = [
+  'back',
+  'home',
+  'recents',
+  'notifications',
+  'quickSettings',
+  'lockScreen',
+  'screenshot',
+];
+
+/**
+ * 与 automation.ts 中的操作一一对应的工具描述
+ */
+export const AUTOMATION_TOOLS = [
+  {
+    type: 'function',
+    function: {
+      name: 'open_app',
+      description: '打开应用',
+      parameters: {
+        type: 'object',
+        properties: {
+          app: { type: 'string', description: '应用名或 Android 包名' },
+        },
+        required: ['app'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'tap',
+      description: '点击屏幕上的一个点',
+      parameters: {
+        type: 'object',
+        properties: {
+          x: { type: 'number' },
+          y: { type: 'number' },
+          ...POINT_PROPERTIES,
+        },
+        required: ['x', 'y'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'long_press',
+      description: '长按屏幕上的一个点，例如弹出菜单',
+      parameters: {
+        type: 'object',
+        properties: {
+          x: { type: 'number' },
+          y: { type: 'number' },
+          ...POINT_PROPERTIES,
+        },
+        required: ['x', 'y'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'double_tap',
+      description: '双击屏幕上的一个点',
+      parameters: {
+        type: 'object',
+        properties: {
+          x: { type: 'number' },
+          y: { type: 'number' },
+          ...POINT_PROPERTIES,
+        },
+        required: ['x', 'y'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'pinch',
+      description: '两指缩放，不给坐标时以屏幕中间为中心',
+      parameters: {
+        type: 'object',
+        properties: {
+          zoom_in: {
+            type: 'boolean',
+            description: '为 true 时两指张开（放大），否则捏合（缩小）',
+          },
+          x: { type: 'number' },
+          y: { type: 'number' },
+          ...POINT_PROPERTIES,
+        },
+        required: ['zoom_in'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'draw_path',
+      description: '单指依次经过多个点，例如图案解锁',
+      parameters: {
+        type: 'object',
+        properties: {
+          points: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: { x: { type: 'number' }, y: { type: 'number' } },
+              required: ['x', 'y'],
+            },
+          },
+          ...POINT_PROPERTIES,
+        },
+        required: ['points'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'tap_text',
+      description: '点击屏幕上显示指定文字的按钮或元素，优先于坐标点击',
+      parameters: {
+        type: 'object',
+        properties: {
+          text: { type: 'string' },
+          index: {
+            type: 'number',
+            description: '多个元素匹配时选择第几个，从 1 开始',
+          },
+        },
+        required: ['text'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'swipe',
+      description: '滑动屏幕：给出方向，或者给出起点和终点',
+      parameters: {
+        type: 'object',
+        properties: {
+          direction: { type: 'string', enum: ['up', 'down', 'left', 'right'] },
+          from_x: { type: 'number' },
+          from_y: { type: 'number' },
+          to_x: { type: 'number' },
+          to_y: { type: 'number' },
+          ...POINT_PROPERTIES,
+        },
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'input_text',
+      description: '在当前输入框中输入文字',
+      parameters: {
+        type: 'object',
+        properties: { text: { type: 'string' } },
+        required: ['text'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'wait_for',
+      description:
+        '等待界面达到某个状态再继续：应用切到前台、文字出现或消失、界面停止变化',
+      parameters: {
+        type: 'object',
+        properties: {
+          app: { type: 'string', description: '等待该应用切到前台' },
+          text: { type: 'string', description: '等待该文字出现' },
+          gone: { type: 'boolean', description: '为 true 时等待文字消失' },
+          idle: { type: 'boolean', description: '为 true 时等待界面停止变化' },
+          timeout_seconds: { type: 'number' },
+        },
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'global_action',
+      description:
+        '系统操作：返回、回到桌面、最近任务、下拉通知栏、快捷设置、锁屏、截屏',
+      parameters: {
+        type: 'object',
+        properties: {
+          action: { type: 'string', enum: GLOBAL_ACTIONS },
+        },
+        required: ['action'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'run_macro',
+      description: '执行用户保存的宏',
+      parameters: {
+        type: 'object',
+        properties: { name: { type: 'string' } },
+        required: ['name'],
+      },
+    },
+  },
+];
+
+function systemPrompt(): string {
+  const macros = getMacros().map(macro => macro.name);
+  return [
+    '你是安卓手机的语音助手，负责把用户的话拆成按顺序执行的操作。',
+    '只能通过调用工具完成操作，需要多个步骤时按顺序返回多个工具调用。',
+    '不知道具体坐标时优先使用相对坐标（relative 为 true）。',
+    macros.length > 0 ? `用户保存的宏：${macros.join('、')}。` : '',
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+type ToolCall = {
+  function?: { name?: string; arguments?: string | Record<string, unknown> };
+};
+
+function toNumber(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function toolPoint(
+  x: unknown,
+  y: unknown,
+  relative: unknown,
+): ScreenPoint | null {
+  const px = toNumber(x);
+  const py = toNumber(y);
+  if (px === null || py === null) {
+    return null;
+  }
+  return relative === true
+    ? { x: px, y: py, unit: 'ratio' }
+    : { x: Math.round(px), y: Math.round(py), unit: 'px' };
+}
+
+/**
+ * 把一个工具调用映射为意图，参数不合法时返回带提示的 Unknown
+ */
+function toIntent(call: ToolCall, command: string): Intent {
+  const span = wholeSpan(command);
+  const name = call.function?.name ?? '';
+  const invalid = (hint: string): Intent => ({ type: 'Unknown', hint, span });
+
+  let parsed: unknown;
+  try {
+    const raw = call.function?.arguments ?? {};
+    parsed = typeof raw === 'string' ? JSON.parse(raw || '{}') : raw;
+  } catch {
+    return invalid(`模型返回的 ${name} 参数不是合法的 JSON`);
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return invalid(`模型返回的 ${name} 参数不是对象`);
+  }
+  const args = parsed as Record<string, unknown>;
+
+  switch (name) {
+    case 'open_app':
+      return typeof args.app === 'string' && args.app.trim()
+        ? { type: 'OpenApp', target: args.app.trim(), span }
+        : invalid('模型没有给出要打开的应用');
+    case 'tap': {
+      const point = toolPoint(args.x, args.y, args.relative);
+      return point
+        ? { type: 'Tap', point, span }
+        : invalid('模型没有给出点击坐标');
+    }
+    case 'long_press':
+    case 'double_tap': {
+      const point = toolPoint(args.x, args.y, args.relative);
+      const type = name === 'long_press' ? 'LongPress' : 'DoubleTap';
+      return point ? { type, point, span } : invalid('模型没有给出坐标');
+    }
+    case 'pinch': {
+      const center =
+        args.x === undefined && args.y === undefined
+          ? SCREEN_REGIONS.center
+          : toolPoint(args.x, args.y, args.relative);
+      return center
+        ? { type: 'Pinch', zoomIn: args.zoom_in === true, center, span }
+        : invalid('模型给出的缩放中心不是合法坐标');
+    }
+    case 'draw_path': {
+      const entries = Array.isArray(args.points) ? args.points : [];
+      const points = entries
+        .map(point => toolPoint(point?.x, point?.y, args.relative))
+        .filter((point): point is ScreenPoint => point !== null);
+      return points.length > 0 && points.length === entries.length
+        ? { type: 'GesturePath', points, span }
+        : invalid('模型没有给出合法的路径');
+    }
+    case 'tap_text': {
+      const index = toNumber(args.index);
+      return typeof args.text === 'string' && args.text.trim()
+        ? {
+            type: 'TapElement',
+            query: { text: args.text.trim() },
+            selector: { index: index && index > 0 ? index - 1 : 0 },
+            span,
+          }
+        : invalid('模型没有给出要点击的文字');
+    }
+    case 'swipe': {
+      const { direction } = args;
+      if (
+        direction === 'up' ||
+        direction === 'down' ||
+        direction === 'left' ||
+        direction === 'right'
+      ) {
+        return { type: 'Swipe', ...directionalSwipe(direction), span };
+      }
+      const from = toolPoint(args.from_x, args.from_y, args.relative);
+      const to = toolPoint(args.to_x, args.to_y, args.relative);
+      return from && to
+        ? { type: 'Swipe', from, to, span }
+        : invalid('模型没有给出滑动方向或坐标');
+    }
+    case 'input_text':
+      return typeof args.text === 'string' && args.text
+        ? { type: 'InputText', text: args.text, span }
+        : invalid('模型没有给出要输入的文字');
+    case 'wait_for': {
+      const seconds = toNumber(args.timeout_seconds);
+      const timeoutMs = seconds && seconds > 0 ? seconds * 1000 : undefined;
+      if (typeof args.text === 'string' && args.text.trim()) {
+        const condition = {
+          kind: 'text' as const,
+          text: args.text.trim(),
+          gone: args.gone === true,
+        };
+        return { type: 'Wait', condition, timeoutMs, span };
+      }
+      if (typeof args.app === 'string' && args.app.trim()) {
+        const condition = { kind: 'app' as const, app: args.app.trim() };
+        return { type: 'Wait', condition, timeoutMs, span };
+      }
+      return args.idle === true
+        ? { type: 'Wait', condition: { kind: 'idle' }, timeoutMs, span }
+        : invalid('模型没有给出等待条件');
+    }
+    case 'global_action':
+      return GLOBAL_ACTIONS.includes(args.action as GlobalAction)
+        ? { type: 'GlobalAction', action: args.action as GlobalAction, span }
+        : invalid('模型给出了未知的系统操作');
+    case 'run_macro':
+      return typeof args.name === 'string' && args.name.trim()
+        ? { type: 'RunMacro', name: args.name.trim(), span }
+        : invalid('模型没有给出宏名称');
+    default:
+      return invalid(`模型返回了未知操作: ${name}`);
+  }
+}
+
+/** 中止时立即拒绝，部分 fetch 实现读取响应体时不响应 signal */
+function abortable<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new Error('Aborted'));
+    signal.addEventListener('abort', onAbort);
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener('abort', onAbort);
+    });
+  });
+}
+
+/**
+ * 用大模型解析命令
+ * 超时覆盖整个请求，包括读取响应体
+ * @throws LlmParserError 接口不可达、超时、返回格式错误或没有任何操作
+ */
+export async function parseWithLlm(
+  command: string,
+  options: LlmParserConfig = config,
+  fetchImpl: typeof fetch = fetch,
+): Promise<Intent[]> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), options.timeoutMs);
+  const timeoutError = () =>
+    new LlmParserError('TIMEOUT', `请求超时（${options.timeoutMs} ms）`);
+  let response: Response;
+  try {
+    response = await fetchImpl(
+      `${options.endpoint.replace(/\/+$/, '')}/chat/completions`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(options.apiKey
+            ? { Authorization: `Bearer ${options.apiKey}` }
+            : {}),
+        },
+        body: JSON.stringify({
+          model: options.model,
+          messages: [
+            { role: 'system', content: systemPrompt() },
+            { role: 'user', content: command },
+          ],
+          tools: AUTOMATION_TOOLS,
+          tool_choice: 'auto',
+          temperature: 0,
+        }),
+        signal: controller.signal,
+      },
+    );
+  } catch (error) {
+    clearTimeout(timer);
+    throw controller.signal.aborted
+      ? timeoutError()
+      : new LlmParserError(
+          'NETWORK',
+          `无法连接 ${options.endpoint}: ${
+            error instanceof Error ? error.message : '未知错误'
+          }`,
+        );
+  }
+
+  if (!response.ok) {
+    clearTimeout(timer);
+    throw new LlmParserError('HTTP', `接口返回 HTTP ${response.status}`);
+  }
+
+  let toolCalls: ToolCall[] | undefined;
+  try {
+    const body = await abortable(response.json(), controller.signal);
+    toolCalls = body?.choices?.[0]?.message?.tool_calls;
+  } catch {
+    throw controller.signal.aborted
+      ? timeoutError()
+      : new LlmParserError('INVALID_RESPONSE', '接口返回的不是合法的 JSON');
+  } finally {
+    clearTimeout(timer);
+  }
+  if (!Array.isArray(toolCalls) || toolCalls.length === 0) {
+    throw new LlmParserError('NO_ACTIONS', '模型没有返回可执行的操作');
+  }
+  return toolCalls.map(call => toIntent(call, command));
+}
@@ -0,0 +1,14 @@
+/**
+ * 语言设置
+ * 同一个语言同时传给语音识别引擎和命令语法，保证识别出的文字能被正确解析
+ */
+
+export type Locale = 'zh-CN' | 'en-US';
+
+export const DEFAULT_LOCALE: Locale = 'zh-CN';
+
+/** 支持的语言及其在界面上的名称 */
+export const SUPPORTED_LOCALES: { locale: Locale; label: string }[] = [
+  { locale: 'zh-CN', label: '中文' },
+  { locale: 'en-US', label: 'English' },
+];
@@ -0,0 +1,120 @@
+/**
+ * 宏：具名的自动化步骤列表，保存在设备本地
+ * 每一步是一条普通命令文字（例如 “点击 50%,80%”），回放时重新解析执行
+ */
+
+import { getJSON, setJSON } from './storage';
+
+export type Macro = {
+  id: string;
+  name: string;
+  steps: string[];
+  createdAt: number;
+  updatedAt: number;
+};
+
+const MACROS_KEY = 'macros.list';
+
+let macros: Macro[] = [];
+
+function normalizeMacroName(name: string): string {
+  return name.replace(/\s+/g, '').toLowerCase();
+}
+
+function cleanSteps(steps: string[]): string[] {
+  return steps.map(step => step.trim()).filter(Boolean);
+}
+
+function assertUniqueName(name: string, exceptId?: string) {
+  const existing = findMacro(name);
+  if (existing && existing.id !== exceptId) {
+    throw new Error(`已存在同名宏：${existing.name}`);
+  }
+}
+
+async function persist(next: Macro[]): Promise<Macro[]> {
+  macros = next;
+  await setJSON(MACROS_KEY, macros);
+  return macros;
+}
+
+/**
+ * 从本地存储加载宏列表
+ */
+export async function loadMacros(): Promise<Macro[]> {
+  macros = await getJSON<Macro[]>(MACROS_KEY, []);
+  return macros;
+}
+
+export function getMacros(): Macro[] {
+  return macros;
+}
+
+/**
+ * 按名称查找宏，忽略空白和大小写
+ */
+export function findMacro(name: string): Macro | undefined {
+  const normalized = normalizeMacroName(name);
+  return macros.find(macro => normalizeMacroName(macro.name) === normalized);
+}
+
+/**
+ * 新建宏
+ */
+export async function createMacro(
+  name: string,
+  steps: string[],
+): Promise<Macro> {
+  const trimmedName = name.trim();
+  if (!trimmedName) {
+    throw new Error('宏名称不能为空');
+  }
+  assertUniqueName(trimmedName);
+
+  const now = Date.now();
+  const macro: Macro = {
+    id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+    name: trimmedName,
+    steps: cleanSteps(steps),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await persist([...macros, macro]);
+  return macro;
+}
+
+/**
+ * 修改宏的名称或步骤
+ */
+export async function updateMacro(
+  id: string,
+  changes: Partial<Pick<Macro, 'name' | 'steps'>>,
+): Promise<Macro> {
+  const current = macros.find(macro => macro.id === id);
+  if (!current) {
+    throw new Error('宏不存在或已被删除');
+  }
+
+  const name = changes.name?.trim() ?? current.name;
+  if (!name) {
+    throw new Error('宏名称不能为空');
+  }
+  assertUniqueName(name, id);
+
+  const updated: Macro = {
+    ...current,
+    name,
+    steps: changes.steps ? cleanSteps(changes.steps) : current.steps,
+    updatedAt: Date.now(),
+  };
+  await persist(macros.map(macro => (macro.id === id ? updated : macro)));
+  return updated;
+}
+
+export async function renameMacro(id: string, name: string): Promise<Macro> {
+  return updateMacro(id, { name });
+}
+
+export async function deleteMacro(id: string): Promise<Macro[]> {
+  return persist(macros.filter(macro => macro.id !== id));
+}
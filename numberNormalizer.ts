@@ -0,0 +1,211 @@
+/**
+ * 数字规范化
+ * 把语音识别常见的数字写法（中文数字、全角数字、口语分隔符）统一为阿拉伯数字，
+ * 并记录每个字符在原文中的位置，以便意图仍能指回原始文字
+ */
+
+import type { Locale } from './locale';
+
+export type NormalizedText = {
+  text: string;
+  /** 第 i 个输出字符对应原文的起始位置 */
+  starts: number[];
+  /** 第 i 个输出字符对应原文的结束位置（不含） */
+  ends: number[];
+};
+
+const DIGITS: Record<string, number> = {
+  零: 0,
+  〇: 0,
+  一: 1,
+  二: 2,
+  两: 2,
+  三: 3,
+  四: 4,
+  五: 5,
+  六: 6,
+  七: 7,
+  八: 8,
+  九: 9,
+};
+
+const UNITS: Record<string, number> = {
+  十: 10,
+  百: 100,
+  千: 1000,
+  万: 10000,
+};
+
+function identity(text: string): NormalizedText {
+  return {
+    text,
+    starts: Array.from(text, (_, i) => i),
+    ends: Array.from(text, (_, i) => i + 1),
+  };
+}
+
+/**
+ * 按正则替换文字，替换结果中的每个字符都映射到被替换片段的原文范围
+ */
+function replaceMapped(
+  input: NormalizedText,
+  pattern: RegExp,
+  replacer: (...groups: string[]) => string,
+): NormalizedText {
+  const output: NormalizedText = { text: '', starts: [], ends: [] };
+  let cursor = 0;
+  const copy = (from: number, to: number) => {
+    output.text += input.text.slice(from, to);
+    output.starts.push(...input.starts.slice(from, to));
+    output.ends.push(...input.ends.slice(from, to));
+  };
+
+  for (const match of input.text.matchAll(pattern)) {
+    const from = match.index;
+    const to = from + match[0].length;
+    copy(cursor, from);
+    const replacement = replacer(...(match as unknown as string[]));
+    const start = input.starts[from] ?? input.ends[from - 1] ?? 0;
+    const end = input.ends[to - 1] ?? start;
+    output.text += replacement;
+    for (let i = 0; i < replacement.length; i++) {
+      output.starts.push(start);
+      output.ends.push(end);
+    }
+    cursor = to;
+  }
+  copy(cursor, input.text.length);
+  return output;
+}
+
+/**
+ * 把一串中文数字转换为数值
+ * 支持 “一百二十”、“一百零五”、口语省略的 “一百二”（=120）
+ * 以及逐位念出的 “一二零”（=120）
+ */
+export function parseChineseNumber(numeral: string): number | null {
+  const chars = Array.from(numeral);
+  if (chars.length === 0 || chars.some(c => !(c in DIGITS || c in UNITS))) {
+    return null;
+  }
+
+  // 没有单位时按逐位念出处理
+  if (!chars.some(c => c in UNITS)) {
+    return parseInt(chars.map(c => DIGITS[c]).join(''), 10);
+  }
+
+  let total = 0;
+  let section = 0;
+  let digit: number | null = null;
+  let lastUnit = 1;
+  let afterZero = false;
+  for (const char of chars) {
+    if (char in DIGITS) {
+      digit = DIGITS[char];
+      afterZero = afterZero || digit === 0;
+      continue;
+    }
+    const unit = UNITS[char];
+    if (unit === 10000) {
+      total += (section + (digit ?? 0)) * unit;
+      section = 0;
+    } else {
+      // “十二” 省略了前面的 “一”
+      section += (digit ?? 1) * unit;
+    }
+    digit = null;
+    lastUnit = unit;
+    afterZero = false;
+  }
+
+  if (digit !== null) {
+    // “一百二” 中结尾的 “二” 表示二十；“一百零二” 则是个位
+    section += afterZero || lastUnit === 10 ? digit : digit * (lastUnit / 10);
+  }
+  return total + section;
+}
+
+/**
+ * 英文口语的百分比和分隔符，例如 “tap 50 percent comma 80 percent” -> “tap 50%,80%”
+ */
+function normalizeEnglish(input: NormalizedText): NormalizedText {
+  let result = replaceMapped(
+    input,
+    /(\d)\s*percent\b/gi,
+    (_, digit) => `${digit}%`,
+  );
+  result = replaceMapped(result, /\s*\bcomma\b\s*/gi, () => ',');
+  return replaceMapped(
+    result,
+    /(\d%?)\s+and\s+(?=\d)/gi,
+    (_, digit) => `${digit},`,
+  );
+}
+
+/**
+ * 规范化命令中的数字和分隔符
+ * 例如 “点击一百二十逗号三百” -> “点击120,300”，“百分之五十” -> “50%”
+ * @param locale 命令的语言，决定口语数字和分隔符的写法
+ */
+export function normalizeNumbers(
+  command: string,
+  locale: Locale = 'zh-CN',
+): NormalizedText {
+  let result = identity(command);
+
+  // 全角数字
+  result = replaceMapped(result, /[０-９]/g, char =>
+    String.fromCharCode(char.charCodeAt(0) - 0xff10 + 0x30),
+  );
+  if (locale === 'en-US') {
+    return normalizeEnglish(result);
+  }
+
+  // 百分比：“百分之五十” -> “50%”，需在中文数字之前处理，否则 “百” 会被当成数字
+  result = replaceMapped(
+    result,
+    /百分之\s*(\d+|[零〇一二两三四五六七八九十百千]+)/g,
+    (_, value) => `${/\d/.test(value) ? value : parseChineseNumber(value)}%`,
+  );
+  result = replaceMapped(result, /％/g, () => '%');
+
+  // 中文数字，跳过 “一下”、“一半” 这类非数值用法
+  result = replaceMapped(
+    result,
+    /[零〇一二两三四五六七八九十百千万]+(?![下半些])/g,
+    numeral => {
+      const value = parseChineseNumber(numeral);
+      return value === null ? numeral : String(value);
+    },
+  );
+
+  // 口语分隔符
+  result = replaceMapped(result, /\s*逗号\s*/g, () => ',');
+  result = replaceMapped(
+    result,
+    /(\d)\s*[和与、]\s*(?=\d)/g,
+    (_, digit) => `${digit},`,
+  );
+  result = replaceMapped(
+    result,
+    /(\d)\s*到\s*(?=\d)/g,
+    (_, digit) => `${digit} 到 `,
+  );
+  return result;
+}
+
+/**
+ * 把规范化文字中的一段位置换算回原文位置
+ */
+export function toSourceRange(
+  normalized: NormalizedText,
+  start: number,
+  end: number,
+): { start: number; end: number } {
+  if (end <= start) {
+    const position =
+      normalized.starts[start] ?? normalized.ends[start - 1] ?? 0;
+    return { start: position, end: position };
+  }
+  return { start: normalized.starts[start], end: normalized.ends[end - 1] };
+}
@@ -0,0 +1,105 @@
+import { Dimensions, PixelRatio } from 'react-native';
+
+/**
+ * 屏幕坐标
+ * unit 为 'px' 时是设备像素；为 'ratio' 时是相对屏幕宽高的比例（0-1），
+ * 执行前才按实际分辨率换算，因此同一条命令或宏可以在不同手机上复用
+ */
+export type ScreenPoint = {
+  x: number;
+  y: number;
+  unit: 'px' | 'ratio';
+};
+
+export type ScreenSize = {
+  width: number;
+  height: number;
+};
+
+export type SwipeDirection = 'up' | 'down' | 'left' | 'right';
+
+export type ScreenRegion =
+  | 'center'
+  | 'topLeft'
+  | 'topRight'
+  | 'bottomLeft'
+  | 'bottomRight'
+  | 'top'
+  | 'bottom'
+  | 'left'
+  | 'right';
+
+/**
+ * 具名屏幕区域，取值避开最边缘以免触发系统手势
+ * 各语言的区域说法由命令语法映射到这里
+ */
+export const SCREEN_REGIONS: Record<ScreenRegion, ScreenPoint> = {
+  center: { x: 0.5, y: 0.5, unit: 'ratio' },
+  topLeft: { x: 0.1, y: 0.1, unit: 'ratio' },
+  topRight: { x: 0.9, y: 0.1, unit: 'ratio' },
+  bottomLeft: { x: 0.1, y: 0.9, unit: 'ratio' },
+  bottomRight: { x: 0.9, y: 0.9, unit: 'ratio' },
+  top: { x: 0.5, y: 0.1, unit: 'ratio' },
+  bottom: { x: 0.5, y: 0.9, unit: 'ratio' },
+  left: { x: 0.1, y: 0.5, unit: 'ratio' },
+  right: { x: 0.9, y: 0.5, unit: 'ratio' },
+};
+
+/** 方向滑动未指定距离时滑过的屏幕比例 */
+export const DEFAULT_SWIPE_FRACTION = 0.6;
+
+/**
+ * 获取屏幕的像素尺寸（手势坐标使用物理像素）
+ */
+export function getScreenSize(): ScreenSize {
+  const { width, height } = Dimensions.get('screen');
+  return {
+    width: PixelRatio.getPixelSizeForLayoutSize(width),
+    height: PixelRatio.getPixelSizeForLayoutSize(height),
+  };
+}
+
+/**
+ * 把屏幕坐标换算为像素坐标
+ */
+export function toPixels(
+  point: ScreenPoint,
+  size: ScreenSize = getScreenSize(),
+): { x: number; y: number } {
+  if (point.unit === 'px') {
+    return { x: point.x, y: point.y };
+  }
+  return {
+    x: Math.round(point.x * size.width),
+    y: Math.round(point.y * size.height),
+  };
+}
+
+/**
+ * 以屏幕中心为中点，生成指定方向的滑动起止点
+ * @param fraction 滑过的屏幕比例，例如 0.5 表示滑动半屏
+ */
+export function directionalSwipe(
+  direction: SwipeDirection,
+  fraction: number = DEFAULT_SWIPE_FRACTION,
+): { from: ScreenPoint; to: ScreenPoint } {
+  const half = Math.min(Math.max(fraction, 0.05), 0.9) / 2;
+  const near = 0.5 - half;
+  const far = 0.5 + half;
+  const point = (x: number, y: number): ScreenPoint => ({
+    x,
+    y,
+    unit: 'ratio',
+  });
+
+  switch (direction) {
+    case 'up':
+      return { from: point(0.5, far), to: point(0.5, near) };
+    case 'down':
+      return { from: point(0.5, near), to: point(0.5, far) };
+    case 'left':
+      return { from: point(far, 0.5), to: point(near, 0.5) };
+    case 'right':
+      return { from: point(near, 0.5), to: point(far, 0.5) };
+  }
+}
@@ -0,0 +1,313 @@
+/**
+ * 自动化脚本
+ * 行式 DSL，每行一条语句：
+ *   打开 微信                  普通命令，与语音命令语法相同
+ *   点击 50%,80% on failure retry 3
+ *   wait 1000 / wait 2s        等待，单位可以是 ms、s、seconds、秒
+ *   repeat 5 { ... }           循环
+ *   if app == 微信 { ... } else { ... }
+ *   call 签到                  调用另一个脚本（宏）
+ *   # 注释
+ */
+
+export type AppCondition = {
+  /** 应用名或包名，执行时解析 */
+  app: string;
+  negate: boolean;
+};
+
+export type ScriptNode =
+  | { kind: 'command'; line: number; text: string; retries: number }
+  | { kind: 'call'; line: number; name: string; retries: number }
+  | { kind: 'wait'; line: number; ms: number }
+  | { kind: 'repeat'; line: number; count: number; body: ScriptNode[] }
+  | {
+      kind: 'if';
+      line: number;
+      condition: AppCondition;
+      body: ScriptNode[];
+      elseBody: ScriptNode[];
+    };
+
+export class ScriptSyntaxError extends Error {
+  line: number;
+
+  constructor(line: number, message: string) {
+    super(`第 ${line} 行：${message}`);
+    this.name = 'ScriptSyntaxError';
+    this.line = line;
+  }
+}
+
+export type ScriptProgressStatus =
+  | 'running'
+  | 'success'
+  | 'failed'
+  | 'retrying'
+  | 'cancelled';
+
+export type ScriptProgress = {
+  line: number;
+  status: ScriptProgressStatus;
+  message?: string;
+};
+
+export type StatementResult = {
+  success: boolean;
+  message: string;
+};
+
+export type RunScriptOptions = {
+  /** 执行一条普通命令 */
+  executeCommand: (text: string) => Promise<StatementResult>;
+  /** 调用另一个脚本 */
+  callScript: (name: string) => Promise<StatementResult>;
+  /** 判断应用当前是否在前台 */
+  isAppInForeground: (app: string) => Promise<boolean>;
+  /** 相邻两条命令之间的等待时间 */
+  stepDelayMs?: number;
+  /** 取消执行 */
+  signal?: AbortSignal;
+  onProgress?: (progress: ScriptProgress) => void;
+};
+
+const RETRY_SUFFIX = /\s+(?:on\s+failure\s+retry|失败重试)\s+(\d+)\s*(?:次)?$/i;
+const WAIT = /^(?:wait|等待)\s+(\d+)\s*(ms|s|secs?|seconds?|毫秒|秒钟|秒)?$/i;
+const MILLISECOND_UNITS = ['ms', '毫秒'];
+const REPEAT = /^(?:repeat|重复)\s+(\d+)\s*(?:次)?\s*\{$/i;
+const IF_APP = /^(?:if|如果)\s+app\s*(==|!=)\s*(.+?)\s*\{$/i;
+const ELSE = /^\}\s*(?:else|否则)\s*\{$/i;
+const CALL = /^(?:call|调用)\s+(.+)$/i;
+
+function splitRetry(text: string): { text: string; retries: number } {
+  const match = RETRY_SUFFIX.exec(text);
+  if (!match) {
+    return { text, retries: 0 };
+  }
+  return {
+    text: text.slice(0, match.index).trim(),
+    retries: parseInt(match[1], 10),
+  };
+}
+
+/**
+ * 解析脚本源码
+ * @throws ScriptSyntaxError 括号不匹配或语句格式错误
+ */
+export function parseScript(source: string): ScriptNode[] {
+  const root: ScriptNode[] = [];
+  // 当前所在的代码块，栈顶是正在填充的语句列表
+  const stack: { node: ScriptNode | null; body: ScriptNode[] }[] = [
+    { node: null, body: root },
+  ];
+
+  source.split('\n').forEach((raw, index) => {
+    const line = index + 1;
+    const text = raw.trim();
+    const current = stack[stack.length - 1];
+    if (!text || text.startsWith('#') || text.startsWith('//')) {
+      return;
+    }
+
+    if (text === '}' || ELSE.test(text)) {
+      if (stack.length === 1) {
+        throw new ScriptSyntaxError(line, '多余的 }');
+      }
+      stack.pop();
+      if (text === '}') {
+        return;
+      }
+      const block = current.node;
+      if (!block || block.kind !== 'if' || current.body !== block.body) {
+        throw new ScriptSyntaxError(line, 'else 只能跟在 if 代码块之后');
+      }
+      stack.push({ node: block, body: block.elseBody });
+      return;
+    }
+
+    const wait = WAIT.exec(text);
+    if (wait) {
+      const value = parseInt(wait[1], 10);
+      // 没有单位时按毫秒计
+      const unit = wait[2]?.toLowerCase();
+      const seconds = unit !== undefined && !MILLISECOND_UNITS.includes(unit);
+      current.body.push({
+        kind: 'wait',
+        line,
+        ms: seconds ? value * 1000 : value,
+      });
+      return;
+    }
+
+    const repeat = REPEAT.exec(text);
+    if (repeat) {
+      const node: ScriptNode = {
+        kind: 'repeat',
+        line,
+        count: parseInt(repeat[1], 10),
+        body: [],
+      };
+      current.body.push(node);
+      stack.push({ node, body: node.body });
+      return;
+    }
+
+    const ifApp = IF_APP.exec(text);
+    if (ifApp) {
+      const node: ScriptNode = {
+        kind: 'if',
+        line,
+        condition: { app: ifApp[2], negate: ifApp[1] === '!=' },
+        body: [],
+        elseBody: [],
+      };
+      current.body.push(node);
+      stack.push({ node, body: node.body });
+      return;
+    }
+
+    if (text.endsWith('{')) {
+      throw new ScriptSyntaxError(line, `无法识别的代码块：${text}`);
+    }
+
+    const statement = splitRetry(text);
+    const call = CALL.exec(statement.text);
+    if (call) {
+      current.body.push({
+        kind: 'call',
+        line,
+        name: call[1].trim(),
+        retries: statement.retries,
+      });
+      return;
+    }
+    current.body.push({ kind: 'command', line, ...statement });
+  });
+
+  if (stack.length > 1) {
+    const unclosed = stack[stack.length - 1].node;
+    throw new ScriptSyntaxError(unclosed?.line ?? 0, '代码块缺少 }');
+  }
+  return root;
+}
+
+function abortable(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done);
+  });
+}
+
+/**
+ * 执行脚本，遇到失败（重试用尽后）或取消时停止
+ */
+export async function runScript(
+  program: ScriptNode[],
+  options: RunScriptOptions,
+): Promise<StatementResult> {
+  const { signal, onProgress, stepDelayMs = 0 } = options;
+  let executedCommands = 0;
+
+  const cancelled = (line: number): StatementResult => {
+    onProgress?.({ line, status: 'cancelled' });
+    return { success: false, message: `已在第 ${line} 行取消` };
+  };
+
+  const runWithRetry = async (
+    node: Extract<ScriptNode, { kind: 'command' | 'call' }>,
+  ): Promise<StatementResult> => {
+    let result: StatementResult = { success: false, message: '' };
+    for (let attempt = 0; attempt <= node.retries; attempt++) {
+      if (attempt > 0) {
+        onProgress?.({
+          line: node.line,
+          status: 'retrying',
+          message: `第 ${attempt}/${node.retries} 次重试`,
+        });
+      }
+      if (executedCommands > 0 && stepDelayMs > 0) {
+        await abortable(stepDelayMs, signal);
+      }
+      if (signal?.aborted) {
+        return cancelled(node.line);
+      }
+      executedCommands += 1;
+      result =
+        node.kind === 'call'
+          ? await options.callScript(node.name)
+          : await options.executeCommand(node.text);
+      if (result.success) {
+        break;
+      }
+    }
+    return result;
+  };
+
+  const runBlock = async (nodes: ScriptNode[]): Promise<StatementResult> => {
+    for (const node of nodes) {
+      if (signal?.aborted) {
+        return cancelled(node.line);
+      }
+      onProgress?.({ line: node.line, status: 'running' });
+
+      let result: StatementResult;
+      switch (node.kind) {
+        case 'command':
+        case 'call':
+          result = await runWithRetry(node);
+          break;
+        case 'wait':
+          await abortable(node.ms, signal);
+          result = { success: true, message: `已等待 ${node.ms} ms` };
+          break;
+        case 'repeat': {
+          result = { success: true, message: `已重复 ${node.count} 次` };
+          for (let i = 0; i < node.count; i++) {
+            const iteration = await runBlock(node.body);
+            if (!iteration.success) {
+              result = iteration;
+              break;
+            }
+          }
+          break;
+        }
+        case 'if': {
+          const inForeground = await options.isAppInForeground(
+            node.condition.app,
+          );
+          const matched = inForeground !== node.condition.negate;
+          result = await runBlock(matched ? node.body : node.elseBody);
+          break;
+        }
+      }
+
+      if (signal?.aborted) {
+        // 内部语句被取消时已经上报过
+        return result.success ? cancelled(node.line) : result;
+      }
+      // 代码块内部的失败已经在对应行上报过
+      if (node.kind !== 'repeat' && node.kind !== 'if') {
+        onProgress?.({
+          line: node.line,
+          status: result.success ? 'success' : 'failed',
+          message: result.message,
+        });
+      }
+      if (!result.success) {
+        return result;
+      }
+    }
+    return { success: true, message: '脚本执行完成' };
+  };
+
+  return runBlock(program);
+}
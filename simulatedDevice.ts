@@ -0,0 +1,327 @@
+/**
+ * 模拟设备
+ * 实现 AutomationBackend，只在内存中记录每次调用，不操作真实手机。
+ * 用于 Jest 测试和界面上的 “模拟运行”，可以预设返回值或失败
+ * 操作失败时与原生模块一样以 AutomationError 拒绝
+ */
+
+import {
+  AutomationError,
+  type AutomationBackend,
+  type AutomationEventName,
+  type AutomationEvents,
+  type AutomationMethod,
+  type GestureStroke,
+  type GlobalAction,
+  type InstalledApp,
+  type NodeQuery,
+  type SetTextMode,
+  type SetTextMethod,
+  type UiNode,
+  type WindowNode,
+} from './automation';
+
+export type AutomationCall = {
+  method: AutomationMethod;
+  args: unknown[];
+};
+
+type ScriptedResponse = { value: unknown } | { error: Error };
+
+/** 模拟屏幕上的元素，index 由查找结果决定 */
+export type SimulatedNode = Omit<UiNode, 'index'>;
+
+function matchesQuery(node: SimulatedNode, query: NodeQuery): boolean {
+  const same = (value: string | null, expected: string) =>
+    value !== null &&
+    (query.exact
+      ? value === expected
+      : value.toLowerCase().includes(expected.toLowerCase()));
+  if (query.text !== undefined) {
+    return (
+      same(node.text, query.text) || same(node.contentDescription, query.text)
+    );
+  }
+  if (query.id !== undefined) {
+    const id = query.id.includes(':') ? query.id : `:id/${query.id}`;
+    return node.viewId !== null && node.viewId.endsWith(id);
+  }
+  return false;
+}
+
+function emptyField(): SimulatedNode {
+  return {
+    text: '',
+    contentDescription: null,
+    viewId: null,
+    className: 'android.widget.EditText',
+    bounds: { left: 0, top: 0, right: 0, bottom: 0 },
+    clickable: true,
+    editable: true,
+  };
+}
+
+export class SimulatedDevice implements AutomationBackend {
+  /** 按时间顺序记录的调用 */
+  calls: AutomationCall[] = [];
+  foregroundApp: string | null = null;
+  serviceRunning = true;
+  /** 已安装的应用，为空时视为全部已安装 */
+  installedPackages: string[] | null = null;
+  /** 当前屏幕上的元素 */
+  nodes: SimulatedNode[] = [];
+  /** getWindowHierarchy 返回的无障碍树 */
+  hierarchy: WindowNode | null = null;
+  /** 获得焦点的输入框，默认是一个空输入框；为 null 时模拟没有焦点 */
+  focusedField: SimulatedNode | null = emptyField();
+
+  private scripted = new Map<AutomationMethod, ScriptedResponse[]>();
+
+  private listeners = new Map<
+    AutomationEventName,
+    Set<(payload: never) => void>
+  >();
+
+  /**
+   * 让接下来的一次调用返回指定值，多次调用按顺序排队
+   */
+  respondWith(method: AutomationMethod, value: unknown): this {
+    this.enqueue(method, { value });
+    return this;
+  }
+
+  /**
+   * 让接下来的一次调用失败
+   */
+  failWith(method: AutomationMethod, error: Error | string): this {
+    this.enqueue(method, {
+      error: typeof error === 'string' ? new Error(error) : error,
+    });
+    return this;
+  }
+
+  /**
+   * 清空调用记录和预设响应，设备状态恢复初始值
+   */
+  reset() {
+    this.calls = [];
+    this.scripted.clear();
+    this.foregroundApp = null;
+    this.serviceRunning = true;
+    this.installedPackages = null;
+    this.nodes = [];
+    this.hierarchy = null;
+    this.focusedField = emptyField();
+  }
+
+  subscribe<E extends AutomationEventName>(
+    event: E,
+    listener: (payload: AutomationEvents[E]) => void,
+  ): () => void {
+    const set = this.listeners.get(event) ?? new Set();
+    set.add(listener);
+    this.listeners.set(event, set);
+    return () => {
+      set.delete(listener);
+    };
+  }
+
+  /**
+   * 模拟一次无障碍事件，通知所有订阅者
+   */
+  emit<E extends AutomationEventName>(event: E, payload: AutomationEvents[E]) {
+    this.listeners.get(event)?.forEach(listener => listener(payload as never));
+  }
+
+  callsOf(method: AutomationMethod): unknown[][] {
+    return this.calls
+      .filter(call => call.method === method)
+      .map(call => call.args);
+  }
+
+  isServiceRunning(): Promise<boolean> {
+    return this.handle('isServiceRunning', [], () => this.serviceRunning);
+  }
+
+  openAccessibilitySettings(): Promise<void> {
+    return this.handle('openAccessibilitySettings', [], () => {});
+  }
+
+  openApp(packageName: string): Promise<void> {
+    return this.handle('openApp', [packageName], () => {
+      if (
+        this.installedPackages &&
+        !this.installedPackages.includes(packageName)
+      ) {
+        throw new AutomationError(
+          'APP_NOT_INSTALLED',
+          `No launchable activity for ${packageName}`,
+        );
+      }
+      const changed = this.foregroundApp !== packageName;
+      this.foregroundApp = packageName;
+      if (changed) {
+        this.emit('foregroundAppChanged', { packageName, className: null });
+      }
+    });
+  }
+
+  tap(x: number, y: number, durationMs: number): Promise<void> {
+    return this.handle('tap', [x, y, durationMs], () => this.requireService());
+  }
+
+  swipe(
+    startX: number,
+    startY: number,
+    endX: number,
+    endY: number,
+    durationMs: number,
+  ): Promise<void> {
+    return this.handle('swipe', [startX, startY, endX, endY, durationMs], () =>
+      this.requireService(),
+    );
+  }
+
+  pasteText(text: string): Promise<void> {
+    return this.handle('pasteText', [text], () => this.requireService());
+  }
+
+  /**
+   * 直接修改目标元素的 text，总是按 setText 方式成功
+   */
+  setText(
+    text: string,
+    target: NodeQuery | null,
+    index: number,
+    mode: SetTextMode,
+  ): Promise<SetTextMethod> {
+    return this.handle('setText', [text, target, index, mode], () => {
+      this.requireService();
+      const node = target
+        ? this.nodes.filter(item => matchesQuery(item, target))[index]
+        : this.focusedField;
+      if (!node) {
+        throw target
+          ? new AutomationError('NODE_NOT_FOUND', 'No matching input field')
+          : new AutomationError('NO_FOCUSED_FIELD', 'No input field has focus');
+      }
+      if (!node.editable) {
+        throw new AutomationError('NOT_EDITABLE', 'Target is not editable');
+      }
+      node.text = mode === 'append' ? `${node.text ?? ''}${text}` : text;
+      return 'setText';
+    });
+  }
+
+  getForegroundApp(): Promise<string | null> {
+    return this.handle('getForegroundApp', [], () => this.foregroundApp);
+  }
+
+  findNodes(query: NodeQuery): Promise<UiNode[]> {
+    return this.handle('findNodes', [query], () => this.query(query));
+  }
+
+  clickNode(query: NodeQuery, index: number): Promise<void> {
+    return this.handle('clickNode', [query, index], () => {
+      this.requireService();
+      if (index >= this.query(query).length) {
+        throw new AutomationError('NODE_NOT_FOUND', 'No matching element');
+      }
+    });
+  }
+
+  getWindowHierarchy(): Promise<WindowNode | null> {
+    return this.handle('getWindowHierarchy', [], () => this.hierarchy);
+  }
+
+  /**
+   * 模拟屏幕不会自行变化，超时后返回 false；需要变化时用 respondWith 预设
+   */
+  waitForWindowChange(timeoutMs: number): Promise<boolean> {
+    return this.handle(
+      'waitForWindowChange',
+      [timeoutMs],
+      () =>
+        new Promise<boolean>(resolve =>
+          setTimeout(() => resolve(false), timeoutMs),
+        ),
+    );
+  }
+
+  performGlobalAction(action: GlobalAction): Promise<void> {
+    return this.handle('performGlobalAction', [action], () =>
+      this.requireService(),
+    );
+  }
+
+  dispatchGesture(strokes: GestureStroke[]): Promise<void> {
+    return this.handle('dispatchGesture', [strokes], () =>
+      this.requireService(),
+    );
+  }
+
+  /** 与原生模块一致：服务未开启时操作直接拒绝 */
+  private requireService() {
+    if (!this.serviceRunning) {
+      throw new AutomationError(
+        'SERVICE_NOT_RUNNING',
+        'Accessibility service is not enabled, open settings to allow it.',
+      );
+    }
+  }
+
+  /**
+   * 列出 installedPackages，应用名即包名；需要应用名时用 respondWith 预设
+   */
+  listInstalledApps(): Promise<InstalledApp[]> {
+    return this.handle('listInstalledApps', [], () =>
+      (this.installedPackages ?? []).map(packageName => ({
+        packageName,
+        label: packageName,
+        iconUri: null,
+        launchable: true,
+      })),
+    );
+  }
+
+  /**
+   * 返回不指向真实文件的 URI，序号按截图次数递增
+   */
+  captureScreenshot(): Promise<string> {
+    return this.handle('captureScreenshot', [], () => {
+      this.requireService();
+      return `file:///simulated/screenshot-${
+        this.callsOf('captureScreenshot').length
+      }.jpg`;
+    });
+  }
+
+  private query(query: NodeQuery): UiNode[] {
+    return this.nodes
+      .filter(node => matchesQuery(node, query))
+      .map((node, index) => ({ ...node, index }));
+  }
+
+  private enqueue(method: AutomationMethod, response: ScriptedResponse) {
+    this.scripted.set(method, [...(this.scripted.get(method) ?? []), response]);
+  }
+
+  /**
+   * 记录调用，有预设响应时优先使用，否则按模拟设备的默认行为处理
+   */
+  private async handle<T>(
+    method: AutomationMethod,
+    args: unknown[],
+    fallback: () => T | Promise<T>,
+  ): Promise<T> {
+    this.calls.push({ method, args });
+    const response = this.scripted.get(method)?.shift();
+    if (!response) {
+      return fallback();
+    }
+    if ('error' in response) {
+      throw response.error;
+    }
+    return response.value as T;
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * 缺少参数时的追问
+ * 只说了 “打开” 或 “输入” 时不直接报错，而是保留已经解析的步骤，
+ * 追问缺少的参数（“打开哪个应用？”），把回答补进原命令后再执行
+ */
+
+import { parseConfirmationReply } from './actionPolicy';
+import { parseCommand, type Intent, type UnknownIntent } from './intentParser';
+import type { Locale } from './locale';
+
+/** 等待回答的时间，超时后放弃这条命令 */
+export const SLOT_TIMEOUT_MS = 20000;
+
+export type SlotDialog = {
+  /** 目前为止的完整命令文字 */
+  command: string;
+  intents: Intent[];
+  /** 正在追问的步骤 */
+  stepIndex: number;
+  prompt: string;
+  locale: Locale;
+};
+
+export type SlotAnswerResult =
+  /** 所有参数都已补全，可以执行 */
+  | { status: 'complete'; command: string; intents: Intent[] }
+  /** 还需要继续追问；hint 为上一个回答无法识别时的提示 */
+  | { status: 'asking'; dialog: SlotDialog; hint?: string }
+  | { status: 'cancelled' };
+
+function isMissingSlot(intent: Intent): intent is UnknownIntent {
+  return intent.type === 'Unknown' && intent.slot !== undefined;
+}
+
+/**
+ * 命令中有步骤缺少参数时开始追问，否则返回 null
+ */
+export function startSlotDialog(
+  command: string,
+  intents: Intent[],
+  locale: Locale,
+): SlotDialog | null {
+  const stepIndex = intents.findIndex(isMissingSlot);
+  const step = intents[stepIndex];
+  if (!step || !isMissingSlot(step) || !step.slot) {
+    return null;
+  }
+  return { command, intents, stepIndex, prompt: step.slot.prompt, locale };
+}
+
+/**
+ * 处理一次回答：取消、补全后执行，或者继续追问
+ */
+export function answerSlot(
+  dialog: SlotDialog,
+  answer: string,
+): SlotAnswerResult {
+  const text = answer.trim().replace(/[\s。！!.]+$/, '');
+  if (parseConfirmationReply(text) === 'cancel') {
+    return { status: 'cancelled' };
+  }
+  const step = dialog.intents[dialog.stepIndex];
+  if (!text || !isMissingSlot(step) || !step.slot) {
+    return { status: 'asking', dialog };
+  }
+
+  // 用补全后的步骤替换原文中的片段，重新解析整条命令
+  const command =
+    dialog.command.slice(0, step.span.start) +
+    step.slot.fill(text) +
+    dialog.command.slice(step.span.end);
+  const intents = parseCommand(command, dialog.locale);
+  const filled = intents[dialog.stepIndex];
+  if (filled?.type === 'Unknown') {
+    return { status: 'asking', dialog, hint: filled.hint };
+  }
+
+  const next = startSlotDialog(command, intents, dialog.locale);
+  return next
+    ? { status: 'asking', dialog: next }
+    : { status: 'complete', command, intents };
+}
@@ -1,4 +1,4 @@
-import { NativeModules, Platform } from 'react-native';
+import { NativeEventEmitter, NativeModules, Platform } from 'react-native';
 
 type SpeechRecognitionResult = {
   text: string;
@@ -12,13 +12,53 @@ type SpeechRecognitionNativeModule = {
   stopListening: () => Promise<boolean>;
   cancelListening: () => Promise<boolean>;
   destroy: () => Promise<boolean>;
+  addListener: (eventName: string) => void;
+  removeListeners: (count: number) => void;
 };
 
+/**
+ * 识别过程中的事件
+ * 只有 Google 引擎会发出，Whisper 录音结束后才一次性转写
+ */
+export type SpeechRecognitionEvents = {
+  /** 检测到用户开始说话 */
+  speechStart: {};
+  /** 用户停止说话，接下来等待最终结果 */
+  speechEnd: {};
+  /** 目前为止识别出的文字，每次都是完整的一句而不是增量 */
+  partialResult: { text: string };
+};
+
+export type SpeechRecognitionEventName = keyof SpeechRecognitionEvents;
+
+const NATIVE_EVENT_NAMES: Record<SpeechRecognitionEventName, string> = {
+  speechStart: 'SpeechRecognitionStart',
+  speechEnd: 'SpeechRecognitionEnd',
+  partialResult: 'SpeechRecognitionPartialResult',
+};
+
+let emitter: NativeEventEmitter | null = null;
+
 const nativeModule: SpeechRecognitionNativeModule | null =
   Platform.OS === 'android'
     ? (NativeModules.SpeechRecognitionModule as SpeechRecognitionNativeModule)
     : null;
 
+function subscribe<E extends SpeechRecognitionEventName>(
+  event: E,
+  listener: (payload: SpeechRecognitionEvents[E]) => void,
+): () => void {
+  // 没有原生模块时不会有事件，订阅不报错，方便界面统一处理
+  if (!nativeModule) {
+    return () => {};
+  }
+  if (!emitter) {
+    emitter = new NativeEventEmitter(nativeModule);
+  }
+  const subscription = emitter.addListener(NATIVE_EVENT_NAMES[event], listener);
+  return () => subscription.remove();
+}
+
 function ensureAvailable(): SpeechRecognitionNativeModule {
   if (!nativeModule) {
     throw new Error('语音识别功能仅支持 Android 设备。');
@@ -71,3 +111,27 @@ export async function destroy(): Promise<boolean> {
   return ensureAvailable().destroy();
 }
 
+/**
+ * 订阅识别中的文字，用于边说边显示
+ * 最终结果仍由 startListening 返回
+ * @returns 取消订阅的函数
+ */
+export function onPartialResult(listener: (text: string) => void): () => void {
+  return subscribe('partialResult', ({ text }) => listener(text));
+}
+
+/**
+ * 订阅开始说话事件
+ * @returns 取消订阅的函数
+ */
+export function onSpeechStart(listener: () => void): () => void {
+  return subscribe('speechStart', () => listener());
+}
+
+/**
+ * 订阅停止说话事件，之后很快会得到最终结果
+ * @returns 取消订阅的函数
+ */
+export function onSpeechEnd(listener: () => void): () => void {
+  return subscribe('speechEnd', () => listener());
+}
@@ -0,0 +1,69 @@
+import { NativeModules, Platform } from 'react-native';
+
+type KeyValueStoreNativeModule = {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<boolean>;
+  removeItem: (key: string) => Promise<boolean>;
+};
+
+const nativeModule: KeyValueStoreNativeModule | null =
+  Platform.OS === 'android'
+    ? (NativeModules.KeyValueStoreModule as KeyValueStoreNativeModule)
+    : null;
+
+// 非 Android 环境（例如 Jest）退回到内存存储，数据不会持久化
+const memoryStore = new Map<string, string>();
+
+/**
+ * 读取字符串值，不存在时返回 null
+ */
+export async function getItem(key: string): Promise<string | null> {
+  if (!nativeModule) {
+    return memoryStore.get(key) ?? null;
+  }
+  return nativeModule.getItem(key);
+}
+
+/**
+ * 写入字符串值
+ */
+export async function setItem(key: string, value: string): Promise<boolean> {
+  if (!nativeModule) {
+    memoryStore.set(key, value);
+    return true;
+  }
+  return nativeModule.setItem(key, value);
+}
+
+/**
+ * 删除指定键
+ */
+export async function removeItem(key: string): Promise<boolean> {
+  if (!nativeModule) {
+    return memoryStore.delete(key);
+  }
+  return nativeModule.removeItem(key);
+}
+
+/**
+ * 读取 JSON 值，不存在或解析失败时返回默认值
+ */
+export async function getJSON<T>(key: string, fallback: T): Promise<T> {
+  const raw = await getItem(key);
+  if (raw === null) {
+    return fallback;
+  }
+  try {
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    console.warn(`读取 ${key} 失败，使用默认值`, error);
+    return fallback;
+  }
+}
+
+/**
+ * 以 JSON 形式写入值
+ */
+export async function setJSON<T>(key: string, value: T): Promise<boolean> {
+  return setItem(key, JSON.stringify(value));
+}
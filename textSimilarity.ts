@@ -0,0 +1,38 @@
+/**
+ * 文字相似度
+ * 应用名解析和命令纠错共用，用拼音比较以容忍语音识别的同音字
+ */
+
+import { pinyin } from 'pinyin-pro';
+
+export function toPinyin(text: string): string {
+  return pinyin(text, { toneType: 'none', type: 'array' })
+    .join('')
+    .toLowerCase();
+}
+
+export function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+/**
+ * 基于编辑距离的相似度，0-1
+ */
+export function similarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - editDistance(a, b) / length;
+}
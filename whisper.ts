@@ -8,7 +8,7 @@ type WhisperResult = {
 type WhisperNativeModule = {
   checkPermission: () => Promise<boolean>;
   initializeModel: (modelPath: string) => Promise<boolean>;
-  startRecording: () => Promise<WhisperResult>;
+  startRecording: (language: string) => Promise<WhisperResult>;
   stopRecording: () => Promise<boolean>;
   release: () => Promise<boolean>;
 };
@@ -44,9 +44,12 @@ export async function initializeModel(
 
 /**
  * 开始录音并返回转写结果（停止录音时自动返回）
+ * @param language 语言代码，例如 'zh-CN' (中文), 'en-US' (英文)
  */
-export async function startRecording(): Promise<WhisperResult> {
-  return ensureAvailable().startRecording();
+export async function startRecording(
+  language: string = 'zh-CN',
+): Promise<WhisperResult> {
+  return ensureAvailable().startRecording(language);
 }
 
 /**
@@ -0,0 +1,136 @@
+/**
+ * 无障碍树的检查工具
+ * 把 getWindowHierarchy 返回的树展开、搜索，并把选中的节点转换为
+ * 可以直接执行或写进宏的命令
+ */
+
+import type { WindowNode } from './automation';
+import type { Locale } from './locale';
+
+export type FlatWindowNode = {
+  node: WindowNode;
+  depth: number;
+  /** 从根节点开始的子节点序号，例如 '0.2.1'，用作列表 key */
+  path: string;
+};
+
+/**
+ * 按先序遍历展开为列表
+ */
+export function flattenHierarchy(root: WindowNode): FlatWindowNode[] {
+  const result: FlatWindowNode[] = [];
+  const visit = (node: WindowNode, depth: number, path: string) => {
+    result.push({ node, depth, path });
+    node.children.forEach((child, index) =>
+      visit(child, depth + 1, `${path}.${index}`),
+    );
+  };
+  visit(root, 0, '0');
+  return result;
+}
+
+/**
+ * 在文字、内容描述、资源 id 和类名中搜索（忽略大小写）
+ */
+export function searchHierarchy(
+  nodes: FlatWindowNode[],
+  keyword: string,
+): FlatWindowNode[] {
+  const needle = keyword.trim().toLowerCase();
+  if (!needle) {
+    return nodes;
+  }
+  return nodes.filter(({ node }) =>
+    [node.text, node.contentDescription, node.viewId, node.className].some(
+      value => value?.toLowerCase().includes(needle),
+    ),
+  );
+}
+
+/**
+ * 节点的简短说明，用于列表展示
+ */
+export function describeNode(node: WindowNode): string {
+  const className = node.className?.split('.').pop() ?? '?';
+  const label = node.text || node.contentDescription;
+  const id = node.viewId?.split(':id/').pop();
+  return [
+    className,
+    label ? `“${label}”` : null,
+    id ? `#${id}` : null,
+    node.clickable ? '可点击' : null,
+    node.editable ? '可编辑' : null,
+    node.scrollable ? '可滚动' : null,
+    node.visible ? null : '不可见',
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
+
+const ORDINAL_WORDS = ['first', 'second', 'third', 'fourth', 'fifth'];
+
+function byScreenPosition(a: WindowNode, b: WindowNode): number {
+  return a.bounds.top - b.bounds.top || a.bounds.left - b.bounds.left;
+}
+
+/**
+ * 与 findNodes 的文字匹配一致：只看可见节点，包含即可，忽略大小写
+ */
+function matchesText(node: WindowNode, text: string): boolean {
+  const needle = text.toLowerCase();
+  return (
+    node.visible &&
+    [node.text, node.contentDescription].some(value =>
+      value?.toLowerCase().includes(needle),
+    )
+  );
+}
+
+/**
+ * 生成点击命令，index 为同类节点中的序号（从 0 开始）
+ */
+function tapCommand(target: string, index: number, english: boolean): string {
+  if (english) {
+    const ordinal =
+      index > 0 ? `the ${ORDINAL_WORDS[index] ?? `${index + 1}th`} ` : '';
+    return `tap ${ordinal}${target}`;
+  }
+  return `点击 ${index > 0 ? `第${index + 1}个` : ''}${target}`;
+}
+
+/**
+ * 把节点转换为点击它的命令
+ * 优先使用文字，其次资源 id，最后才用中心点坐标；
+ * 同一文字匹配多个节点时带上序号，与 selectNode 的排列顺序一致；
+ * 序号只在可见节点中计算，不可见的节点本身无法点击，不带序号
+ * @param all 整棵树展开后的节点，用于计算序号
+ */
+export function commandForNode(
+  node: WindowNode,
+  all: FlatWindowNode[],
+  locale: Locale,
+): string {
+  const english = locale === 'en-US';
+  const nodes = all.map(item => item.node);
+  const label = node.text?.trim() || node.contentDescription?.trim();
+  if (label) {
+    const index = nodes
+      .filter(item => matchesText(item, label))
+      .sort(byScreenPosition)
+      .indexOf(node);
+    return tapCommand(english ? `"${label}"` : `“${label}”`, index, english);
+  }
+
+  const id = node.viewId?.split(':id/').pop();
+  if (id) {
+    const index = nodes
+      .filter(item => item.visible && item.viewId === node.viewId)
+      .sort(byScreenPosition)
+      .indexOf(node);
+    return tapCommand(`id ${id}`, index, english);
+  }
+
+  const x = Math.round((node.bounds.left + node.bounds.right) / 2);
+  const y = Math.round((node.bounds.top + node.bounds.bottom) / 2);
+  return english ? `tap ${x}, ${y}` : `点击 ${x},${y}`;
+}